@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { geminiService } from '../../services/gemini.service';
+import { TranslatableText } from '../learning/TranslatableText';
 import { Icon } from '../../utils/icons';
 import { showToast } from '../../utils/toast';
 import { ChevronDown, ChevronUp, Check, X, BookOpen, Sparkles, RefreshCw, Award } from 'lucide-react';
@@ -9,6 +10,7 @@ interface InteractiveStoryProps {
   language: 'yo' | 'ig' | 'ha';
   level: 'beginner' | 'intermediate' | 'advanced';
   onComplete?: (score: number) => void;
+  onExplore?: (itemKey: string) => void;
 }
 
 interface Story {
@@ -26,7 +28,8 @@ interface Story {
 export const InteractiveStory = ({ 
   language, 
   level, 
-  onComplete 
+  onComplete,
+  onExplore
 }: InteractiveStoryProps) => {
   const [story, setStory] = useState<Story | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -107,6 +110,7 @@ export const InteractiveStory = ({
     if (onComplete) {
       onComplete(score);
     }
+    onExplore?.(`story:${level}`);
 
     showToast.celebration(`You scored ${score}/${story.comprehensionQuestions.length}`);
   };
@@ -269,7 +273,7 @@ export const InteractiveStory = ({
             <p className={`leading-relaxed whitespace-pre-line text-lg ${
               isDark ? 'text-gray-300' : 'text-gray-800'
             }`}>
-              {story.content}
+              <TranslatableText text={story.content} source={language} />
             </p>
           </motion.div>
 
@@ -330,7 +334,7 @@ export const InteractiveStory = ({
                     <span className={`w-8 h-8 rounded-full bg-gradient-to-br ${currentLanguage.color} text-white flex items-center justify-center flex-shrink-0 text-sm`}>
                       {idx + 1}
                     </span>
-                    {question}
+                    <TranslatableText text={question} source={language} />
                   </p>
                   
                   <div className="space-y-3 ml-11">
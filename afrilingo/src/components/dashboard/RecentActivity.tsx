@@ -0,0 +1,48 @@
+import { motion } from 'framer-motion';
+import { Activity, CheckCircle, XCircle } from 'lucide-react';
+import type { ActivityItem } from '../../services/dashboard.service';
+import { formatRelativeTime } from '../../utils/format';
+
+interface RecentActivityProps {
+  items: ActivityItem[];
+  isDark?: boolean;
+}
+
+export const RecentActivity = ({ items, isDark = true }: RecentActivityProps) => (
+  <motion.div
+    className={`rounded-2xl p-6 ${isDark ? 'bg-gray-800' : 'bg-white'} shadow-lg`}
+    initial={{ opacity: 0, y: 20 }}
+    animate={{ opacity: 1, y: 0 }}
+    transition={{ delay: 0.4 }}
+  >
+    <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+      <Activity className="w-5 h-5 text-emerald-600" />
+      Recent Activity
+    </h3>
+
+    {items.length === 0 ? (
+      <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+        Answer your first exercise to see your activity here.
+      </p>
+    ) : (
+      <ul className="space-y-3">
+        {items.map(item => (
+          <li
+            key={item.id}
+            className={`flex items-start gap-3 p-3 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}
+          >
+            {item.isCorrect
+              ? <CheckCircle className="w-5 h-5 text-green-500 flex-shrink-0 mt-0.5" />
+              : <XCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />}
+            <div className="flex-1 min-w-0">
+              <p className="font-medium truncate">{item.question}</p>
+              <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                {item.lessonTitle} · {formatRelativeTime(item.createdAt)}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </motion.div>
+);
@@ -0,0 +1,60 @@
+import { motion } from 'framer-motion';
+import { BookOpen, PenTool, Mic, MessageCircle, Globe, Target } from 'lucide-react';
+import type { Skill, SkillProgress } from '../../services/dashboard.service';
+
+interface SkillBreakdownProps {
+  skills: SkillProgress[];
+  isDark?: boolean;
+}
+
+const skillDisplay: Record<Skill, { label: string; icon: typeof BookOpen; color: string }> = {
+  vocabulary: { label: 'Vocabulary', icon: BookOpen, color: 'from-emerald-500 to-teal-600' },
+  grammar: { label: 'Grammar', icon: PenTool, color: 'from-purple-500 to-indigo-600' },
+  pronunciation: { label: 'Pronunciation', icon: Mic, color: 'from-orange-500 to-red-600' },
+  conversation: { label: 'Conversation', icon: MessageCircle, color: 'from-blue-500 to-indigo-600' },
+  culture: { label: 'Culture', icon: Globe, color: 'from-yellow-500 to-orange-600' }
+};
+
+export const SkillBreakdown = ({ skills, isDark = true }: SkillBreakdownProps) => (
+  <motion.div
+    className={`rounded-2xl p-6 ${isDark ? 'bg-gray-800' : 'bg-white'} shadow-lg`}
+    initial={{ opacity: 0, y: 20 }}
+    animate={{ opacity: 1, y: 0 }}
+    transition={{ delay: 0.3 }}
+  >
+    <h3 className="text-xl font-bold mb-6 flex items-center gap-2">
+      <Target className="w-5 h-5 text-emerald-600" />
+      Skills
+    </h3>
+
+    <div className="space-y-4">
+      {skills.filter(skill => skill.totalLessons > 0).map((skill, index) => {
+        const display = skillDisplay[skill.skill];
+        const progress = Math.round((skill.lessonsCompleted / skill.totalLessons) * 100);
+
+        return (
+          <div key={skill.skill}>
+            <div className="flex items-center justify-between mb-2 text-sm">
+              <span className="flex items-center gap-2 font-medium">
+                <display.icon className="w-4 h-4" />
+                {display.label}
+              </span>
+              <span className={isDark ? 'text-gray-400' : 'text-gray-600'}>
+                {skill.lessonsCompleted}/{skill.totalLessons} lessons
+                {skill.lessonsCompleted > 0 && ` · avg ${skill.averageScore}%`}
+              </span>
+            </div>
+            <div className={`w-full h-2 rounded-full ${isDark ? 'bg-gray-700' : 'bg-gray-200'} overflow-hidden`}>
+              <motion.div
+                className={`h-full bg-gradient-to-r ${display.color}`}
+                initial={{ width: 0 }}
+                animate={{ width: `${progress}%` }}
+                transition={{ duration: 1, delay: 0.3 + index * 0.1 }}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </motion.div>
+);
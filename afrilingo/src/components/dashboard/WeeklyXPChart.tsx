@@ -0,0 +1,55 @@
+import { motion } from 'framer-motion';
+import { TrendingUp } from 'lucide-react';
+import type { DailyXP } from '../../services/dashboard.service';
+
+interface WeeklyXPChartProps {
+  days: DailyXP[];
+  isDark?: boolean;
+}
+
+const weekdayLabel = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', timeZone: 'UTC' });
+
+export const WeeklyXPChart = ({ days, isDark = true }: WeeklyXPChartProps) => {
+  const maxXP = Math.max(...days.map(day => day.xp), 1);
+  const totalXP = days.reduce((sum, day) => sum + day.xp, 0);
+
+  return (
+    <motion.div
+      className={`rounded-2xl p-6 ${isDark ? 'bg-gray-800' : 'bg-white'} shadow-lg`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-emerald-600" />
+          This Week
+        </h3>
+        <span className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+          {totalXP} XP
+        </span>
+      </div>
+
+      <div className="flex items-end justify-between gap-2 h-32">
+        {days.map((day, index) => (
+          <div key={day.date} className="flex-1 flex flex-col items-center gap-2 h-full" title={`${day.date}: ${day.xp} XP`}>
+            <div className="flex-1 w-full flex items-end">
+              <motion.div
+                className="w-full rounded-t-md bg-gradient-to-t from-emerald-500 to-teal-400"
+                initial={{ height: 0 }}
+                animate={{ height: `${(day.xp / maxXP) * 100}%` }}
+                transition={{ duration: 0.6, delay: 0.3 + index * 0.05 }}
+              />
+            </div>
+            <span className={`text-xs ${
+              index === days.length - 1 ? 'font-semibold text-emerald-500' : isDark ? 'text-gray-400' : 'text-gray-600'
+            }`}>
+              {weekdayLabel(day.date)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
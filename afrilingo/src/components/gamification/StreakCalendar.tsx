@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Flame, Snowflake, Loader2 } from 'lucide-react';
+import { useGameStore } from '../../stores/gameStore';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  streakService,
+  addDays,
+  STREAK_FREEZE_PRICE,
+  MAX_STREAK_FREEZES,
+  type DailyActivity
+} from '../../services/streak.service';
+import { showToast } from '../../utils/toast';
+
+interface StreakCalendarProps {
+  isDark?: boolean;
+}
+
+const WEEKS = 12;
+
+// First day shown: the Sunday WEEKS - 1 weeks back, so each column is
+// one week and the last one is the current week
+const calendarStart = (today: string) => {
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  return addDays(today, -(WEEKS - 1) * 7 - weekday);
+};
+
+// Heat levels by XP earned that day
+const cellColor = (activity: DailyActivity | undefined, isDark: boolean) => {
+  if (!activity || (activity.events === 0 && !activity.freezeUsed)) {
+    return isDark ? 'bg-gray-700' : 'bg-gray-200';
+  }
+  if (activity.events === 0) return 'bg-sky-400';
+  if (activity.xp >= 100) return 'bg-emerald-700';
+  if (activity.xp >= 50) return 'bg-emerald-600';
+  if (activity.xp >= 20) return 'bg-emerald-500';
+  return 'bg-emerald-300';
+};
+
+const cellTitle = (date: string, activity: DailyActivity | undefined) => {
+  if (activity?.events) return `${date}: ${activity.xp} XP`;
+  if (activity?.freezeUsed) return `${date}: streak freeze used`;
+  return `${date}: no activity`;
+};
+
+export const StreakCalendar = ({ isDark = true }: StreakCalendarProps) => {
+  const { user } = useAuth();
+  const { streakDays, longestStreak, streakFreezes, cowrieShells, purchaseStreakFreeze } = useGameStore();
+  const [today, setToday] = useState<string | null>(null);
+  const [history, setHistory] = useState<Map<string, DailyActivity>>(new Map());
+  const [isBuying, setIsBuying] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadHistory = async () => {
+      try {
+        const { today } = await streakService.getStreak();
+        const activity = await streakService.getActivityHistory(user.id, calendarStart(today));
+        setHistory(new Map(activity.map(day => [day.date, day])));
+        setToday(today);
+      } catch (error) {
+        console.error('Failed to load activity history:', error);
+      }
+    };
+
+    loadHistory();
+  }, [user, streakDays]);
+
+  const buyFreeze = async () => {
+    setIsBuying(true);
+    const purchase = await purchaseStreakFreeze();
+    setIsBuying(false);
+
+    if (purchase?.purchased) {
+      showToast.success('Streak freeze ready! A missed day won\'t break your streak.');
+    } else if (purchase?.reason === 'insufficient_cowries') {
+      showToast.error(`You need ${STREAK_FREEZE_PRICE} cowries for a streak freeze`);
+    } else if (purchase?.reason === 'limit_reached') {
+      showToast.info(`You can hold up to ${MAX_STREAK_FREEZES} streak freezes`);
+    } else {
+      showToast.error('Failed to buy streak freeze');
+    }
+  };
+
+  // Columns of weeks, oldest first; days after today are left blank
+  const weeks: Array<Array<string | null>> = [];
+  if (today) {
+    const start = calendarStart(today);
+    for (let w = 0; w < WEEKS; w++) {
+      const week: Array<string | null> = [];
+      for (let d = 0; d < 7; d++) {
+        const date = addDays(start, w * 7 + d);
+        week.push(date <= today ? date : null);
+      }
+      weeks.push(week);
+    }
+  }
+
+  const canBuy = streakFreezes < MAX_STREAK_FREEZES && cowrieShells >= STREAK_FREEZE_PRICE;
+
+  return (
+    <motion.div
+      className={`rounded-2xl p-6 ${isDark ? 'bg-gray-800' : 'bg-white'} shadow-lg`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Flame className="w-5 h-5 text-orange-500" />
+          Activity
+        </h3>
+        <span className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+          Longest streak: {longestStreak} days
+        </span>
+      </div>
+
+      {today ? (
+        <div className="flex gap-1 overflow-x-auto pb-2">
+          {weeks.map((week, w) => (
+            <div key={w} className="flex flex-col gap-1">
+              {week.map((date, d) => (
+                <div
+                  key={d}
+                  className={`w-4 h-4 rounded-sm ${date ? cellColor(history.get(date), isDark) : ''} ${
+                    date === today ? 'ring-2 ring-orange-400' : ''
+                  }`}
+                  title={date ? cellTitle(date, history.get(date)) : undefined}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <Loader2 className="w-5 h-5 animate-spin text-emerald-600" />
+      )}
+
+      <div className={`mt-4 pt-4 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'} flex items-center justify-between gap-4`}>
+        <div className="flex items-center gap-2 text-sm">
+          <Snowflake className="w-4 h-4 text-sky-400" />
+          <span>
+            {streakFreezes} of {MAX_STREAK_FREEZES} streak freezes
+          </span>
+        </div>
+        <button
+          onClick={buyFreeze}
+          disabled={!canBuy || isBuying}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium ${
+            isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+          } transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+        >
+          {isBuying && <Loader2 className="w-4 h-4 animate-spin" />}
+          Buy for {STREAK_FREEZE_PRICE} 🐚
+        </button>
+      </div>
+    </motion.div>
+  );
+};
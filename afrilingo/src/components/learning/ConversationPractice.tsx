@@ -1,6 +1,7 @@
 import { useState, useRef } from 'react';
 import { geminiService } from '../../services/gemini.service';
-import { spitchService } from '../../services/spitch.service';
+import { spitchService, SpitchQuotaError } from '../../services/spitch.service';
+import { TranslatableText } from './TranslatableText';
 import { Icon } from '../../utils/icons';
 import { showToast } from '../../utils/toast';
 import { MessageCircle, Volume2, Mic, Send, Loader2, Eye, EyeOff, Play, MicOff } from 'lucide-react';
@@ -90,7 +91,7 @@ export const ConversationPractice = ({
       }]);
       setConversationStarted(true);
     } catch (error) {
-      showToast.error('Failed to start conversation');
+      showToast.error(error instanceof SpitchQuotaError ? error.message : 'Failed to start conversation');
     } finally {
       setIsLoading(false);
     }
@@ -146,7 +147,7 @@ export const ConversationPractice = ({
       }
     } catch (error) {
       console.error('Conversation error:', error);
-      showToast.error('Failed to get response');
+      showToast.error(error instanceof SpitchQuotaError ? error.message : 'Failed to get response');
       // Remove the user message if there was an error
       setConversation(conversation);
     } finally {
@@ -194,7 +195,7 @@ export const ConversationPractice = ({
           setUserInput(transcription);
           showToast.success('Recording transcribed');
         } catch (error) {
-          showToast.error('Failed to transcribe audio');
+          showToast.error(error instanceof SpitchQuotaError ? error.message : 'Failed to transcribe audio');
         }
       };
 
@@ -385,7 +386,9 @@ export const ConversationPractice = ({
                     }`}
                     whileHover={{ scale: 1.02 }}
                   >
-                    <div className="font-medium">{message.content}</div>
+                    <div className="font-medium">
+                      <TranslatableText text={message.content} source={language} />
+                    </div>
                     <AnimatePresence>
                       {showTranslations && message.translation && (
                         <motion.div 
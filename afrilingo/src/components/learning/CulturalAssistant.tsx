@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { geminiService } from '../../services/gemini.service';
+import type { TranslationLanguage } from '../../services/spitch.service';
+import { TranslatableText } from './TranslatableText';
 import { Icon } from '../../utils/icons';
 import { showToast } from '../../utils/toast';
 import { Send, Loader2, Sparkles, MessageCircle, Book } from 'lucide-react';
@@ -8,6 +10,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 interface CulturalAssistantProps {
   language: string;
   context?: string;
+  onExplore?: (itemKey: string) => void;
 }
 
 interface Message {
@@ -16,9 +19,19 @@ interface Message {
   timestamp: Date;
 }
 
+// Keys match the cultural_items catalogue; only these topics count as
+// explored
+const suggestedTopics = [
+  { key: 'assistant:greeting-elders', question: "What's the proper way to greet elders?" },
+  { key: 'assistant:kola-nuts', question: 'Explain the significance of kola nuts' },
+  { key: 'assistant:proverbs', question: 'What are common Nigerian proverbs?' },
+  { key: 'assistant:naming-ceremonies', question: 'How do naming ceremonies work?' }
+];
+
 export const CulturalAssistant = ({ 
   language,
-  context 
+  context,
+  onExplore
 }: CulturalAssistantProps) => {
   const [messages, setMessages] = useState<Message[]>([
     {
@@ -43,6 +56,16 @@ export const CulturalAssistant = ({
 
   const currentColor = languageColors[language as keyof typeof languageColors] || 'from-emerald-500 to-teal-600';
 
+  // The guide answers in English; tapping a word shows it in the learner's language
+  const translationTargets: Record<string, TranslationLanguage> = {
+    yo: 'yo', ig: 'ig', ha: 'ha',
+    Yoruba: 'yo', Igbo: 'ig', Hausa: 'ha'
+  };
+  const translationTarget = translationTargets[language];
+
+  const renderLine = (line: string) =>
+    translationTarget ? <TranslatableText text={line} source="en" target={translationTarget} /> : line;
+
   const handleSubmit = async (e?: any) => {
     e?.preventDefault();
     if (!input.trim() || isLoading) return;
@@ -71,6 +94,8 @@ export const CulturalAssistant = ({
       };
 
       setMessages(prev => [...prev, assistantMessage]);
+      const topic = suggestedTopics.find(t => t.question === userMessage.content.trim());
+      if (topic) onExplore?.(topic.key);
     } catch (error) {
       showToast.error('Failed to get response. Please try again.');
     } finally {
@@ -105,13 +130,6 @@ export const CulturalAssistant = ({
     return response;
   };
 
-  const suggestedQuestions = [
-    "What's the proper way to greet elders?",
-    "Explain the significance of kola nuts",
-    "What are common Nigerian proverbs?",
-    "How do naming ceremonies work?"
-  ];
-
   const formatContent = (content: string) => {
     const lines = content.split('\n');
     return lines.map((line, index) => {
@@ -124,13 +142,13 @@ export const CulturalAssistant = ({
       } else if (line.startsWith('•') || line.match(/^\d+\./)) {
         return (
           <p key={index} className={`ml-4 mb-1 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
-            {line}
+            {renderLine(line)}
           </p>
         );
       } else if (line.trim()) {
         return (
           <p key={index} className={`mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
-            {line}
+            {renderLine(line)}
           </p>
         );
       }
@@ -266,9 +284,9 @@ export const CulturalAssistant = ({
               Popular questions:
             </p>
             <div className="flex flex-wrap gap-2">
-              {suggestedQuestions.map((question, idx) => (
+              {suggestedTopics.map(({ key, question }, idx) => (
                 <motion.button
-                  key={idx}
+                  key={key}
                   onClick={() => setInput(question)}
                   className={`text-sm px-4 py-2 rounded-full transition-all ${
                     isDark 
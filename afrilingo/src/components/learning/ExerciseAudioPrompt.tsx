@@ -0,0 +1,104 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Volume2, Loader2, Turtle } from 'lucide-react';
+import { spitchService, SpitchQuotaError } from '../../services/spitch.service';
+import { showToast } from '../../utils/toast';
+
+interface ExerciseAudioPromptProps {
+  text: string;
+  language: 'yo' | 'ig' | 'ha' | 'en';
+  label: string;
+  color: string;
+  isDark?: boolean;
+  autoPlay?: boolean;
+}
+
+const SLOW_RATE = 0.7;
+
+export const ExerciseAudioPrompt = ({
+  text,
+  language,
+  label,
+  color,
+  isDark = true,
+  autoPlay = true
+}: ExerciseAudioPromptProps) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+  // Bumped on unmount or a new clip, so a play() still fetching audio
+  // for the old one knows to drop it
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    if (autoPlay) play();
+
+    return () => {
+      generationRef.current++;
+      audioRef.current?.pause();
+      if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+      audioRef.current = null;
+      urlRef.current = null;
+    };
+  }, [text, language]);
+
+  const play = async (rate = 1) => {
+    const generation = generationRef.current;
+    const isStale = () => generation !== generationRef.current;
+    try {
+      if (!audioRef.current) {
+        setIsLoading(true);
+        const blob = await spitchService.generateSpeech(text, language);
+        if (isStale()) return;
+        urlRef.current = URL.createObjectURL(blob);
+        audioRef.current = new Audio(urlRef.current);
+        audioRef.current.onended = () => setIsPlaying(false);
+      }
+
+      audioRef.current.pause();
+      audioRef.current.currentTime = 0;
+      audioRef.current.playbackRate = rate;
+      setIsPlaying(true);
+      await audioRef.current.play();
+    } catch (error) {
+      if (isStale()) return;
+      console.error('Exercise audio error:', error);
+      showToast.error(error instanceof SpitchQuotaError ? error.message : 'Could not play audio');
+      setIsPlaying(false);
+    } finally {
+      if (!isStale()) setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4 mb-8">
+      <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>{label}</p>
+      <div className="flex items-center gap-3">
+        <motion.button
+          onClick={() => play()}
+          disabled={isLoading}
+          className={`p-6 rounded-full bg-gradient-to-r ${color} text-white disabled:opacity-70`}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          aria-label="Play audio"
+        >
+          {isLoading
+            ? <Loader2 className="w-8 h-8 animate-spin" />
+            : <Volume2 className={`w-8 h-8 ${isPlaying ? 'animate-pulse' : ''}`} />}
+        </motion.button>
+        <button
+          onClick={() => play(SLOW_RATE)}
+          disabled={isLoading}
+          className={`p-3 rounded-full disabled:opacity-70 ${
+            isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+          }`}
+          aria-label="Play slowly"
+          title="Play slowly"
+        >
+          <Turtle className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { normalizeContour, type PitchContour } from '../../utils/pitch';
+
+interface PitchContourChartProps {
+  reference: PitchContour | null;
+  attempt: PitchContour | null;
+  isDark?: boolean;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 16;
+const SEMITONE_RANGE = 8; // Plot +/- 8 semitones around the speaker's median
+
+// Break a contour into separate polylines wherever the voice drops out
+const toPolylines = (contour: PitchContour | null): string[] => {
+  if (!contour) return [];
+
+  const lines: string[] = [];
+  let current: string[] = [];
+
+  normalizeContour(contour).forEach(point => {
+    if (point.semitones === null) {
+      if (current.length > 1) lines.push(current.join(' '));
+      current = [];
+      return;
+    }
+    const clamped = Math.max(-SEMITONE_RANGE, Math.min(SEMITONE_RANGE, point.semitones));
+    const x = PADDING + point.position * (WIDTH - PADDING * 2);
+    const y = HEIGHT / 2 - (clamped / SEMITONE_RANGE) * (HEIGHT / 2 - PADDING);
+    current.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+  });
+  if (current.length > 1) lines.push(current.join(' '));
+
+  return lines;
+};
+
+export const PitchContourChart = ({ reference, attempt, isDark = true }: PitchContourChartProps) => {
+  const referenceLines = useMemo(() => toPolylines(reference), [reference]);
+  const attemptLines = useMemo(() => toPolylines(attempt), [attempt]);
+
+  return (
+    <motion.div
+      className={`p-6 rounded-2xl ${isDark ? 'bg-gray-800' : 'bg-white'} shadow-lg`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-bold text-lg">Pitch Contour</h4>
+        <div className="flex items-center gap-4 text-sm">
+          <span className="flex items-center gap-2">
+            <span className="w-4 h-1 rounded bg-emerald-500" />
+            Example
+          </span>
+          <span className="flex items-center gap-2">
+            <span className="w-4 h-1 rounded bg-orange-500" />
+            You
+          </span>
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Pitch contour comparison">
+        <line
+          x1={PADDING}
+          x2={WIDTH - PADDING}
+          y1={HEIGHT / 2}
+          y2={HEIGHT / 2}
+          stroke="currentColor"
+          strokeOpacity={0.15}
+          strokeDasharray="4 4"
+        />
+        {referenceLines.map((points, idx) => (
+          <polyline
+            key={`reference-${idx}`}
+            points={points}
+            fill="none"
+            stroke="#10b981"
+            strokeWidth={3}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+        {attemptLines.map((points, idx) => (
+          <polyline
+            key={`attempt-${idx}`}
+            points={points}
+            fill="none"
+            stroke="#f97316"
+            strokeWidth={3}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+      </svg>
+
+      <p className={`text-sm mt-3 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+        Higher lines mean higher pitch. Match the rises and falls of the example on each syllable.
+      </p>
+    </motion.div>
+  );
+};
@@ -1,8 +1,18 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { spitchService } from '../../services/spitch.service';
+import {
+  spitchService,
+  PronunciationError,
+  SpitchQuotaError,
+  type ToneAnalysis
+} from '../../services/spitch.service';
+import type { WordAlignment } from '../../utils/alignment';
+import type { PitchContour } from '../../utils/pitch';
+import { PitchContourChart } from './PitchContourChart';
 import { showToast } from '../../utils/toast';
 import { Icon } from '../../utils/icons';
-import { Volume2, Mic, MicOff, RotateCcw, Check, Loader2, Zap, Play, Pause } from 'lucide-react';
+import {
+  Volume2, Mic, MicOff, RotateCcw, Check, Loader2, Zap, Play, Pause, AlertCircle, WifiOff
+} from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface PronunciationPracticeProps {
@@ -24,10 +34,17 @@ export const PronunciationPractice = ({
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [score, setScore] = useState<number | null>(null);
   const [feedback, setFeedback] = useState<string[]>([]);
+  const [alignment, setAlignment] = useState<WordAlignment[]>([]);
+  const [toneAnalysis, setToneAnalysis] = useState<ToneAnalysis | null>(null);
   const [hasListenedToExample, setHasListenedToExample] = useState(false);
   const [availableVoices, setAvailableVoices] = useState<Array<{id: string, name: string, gender: string}>>([]);
   const [selectedVoice, setSelectedVoice] = useState<string>('');
   const [isPlaying, setIsPlaying] = useState(false);
+  const [exampleContour, setExampleContour] = useState<PitchContour | null>(null);
+  const [attemptContour, setAttemptContour] = useState<PitchContour | null>(null);
+  const [analysisError, setAnalysisError] = useState<PronunciationError | null>(null);
+  // Offline practice only plays recordings back - it never scores or rewards
+  const [offlineMode, setOfflineMode] = useState(false);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -41,7 +58,7 @@ export const PronunciationPractice = ({
   useEffect(() => {
     const voices = spitchService.getVoices(language);
     setAvailableVoices(voices);
-    setSelectedVoice(voice || voices[0]?.id || '');
+    setSelectedVoice(voice || spitchService.getDefaultVoice(language));
   }, [language, voice]);
 
   useEffect(() => {
@@ -53,6 +70,13 @@ export const PronunciationPractice = ({
     };
   }, []);
 
+  // Pitch tracking is a visual extra, so failures are only logged
+  const trackPitch = (blob: Blob, setContour: (contour: PitchContour) => void) => {
+    spitchService.getPitchContour(blob)
+      .then(setContour)
+      .catch(error => console.warn('Pitch tracking failed:', error));
+  };
+
   const playExample = async () => {
     setIsLoadingExample(true);
     setIsPlaying(true);
@@ -64,6 +88,7 @@ export const PronunciationPractice = ({
 
       const audioBlob = await spitchService.generateSpeech(text, language, selectedVoice);
       const audioUrl = URL.createObjectURL(audioBlob);
+      trackPitch(audioBlob, setExampleContour);
       
       audioRef.current = new Audio(audioUrl);
       audioRef.current.onended = () => {
@@ -76,7 +101,11 @@ export const PronunciationPractice = ({
       showToast.success('Playing native speaker example');
     } catch (error) {
       console.error('Failed to play example:', error);
-      showToast.error('Failed to play example. Please check your connection and API key.');
+      showToast.error(
+        error instanceof SpitchQuotaError
+          ? error.message
+          : 'Failed to play example. Please check your connection and API key.'
+      );
       setIsPlaying(false);
     } finally {
       setIsLoadingExample(false);
@@ -109,6 +138,7 @@ export const PronunciationPractice = ({
       mediaRecorder.onstop = async () => {
         const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
         setAudioBlob(audioBlob);
+        trackPitch(audioBlob, setAttemptContour);
         stream.getTracks().forEach(track => track.stop());
       };
 
@@ -135,6 +165,9 @@ export const PronunciationPractice = ({
     setIsAnalyzing(true);
     setScore(null);
     setFeedback([]);
+    setAlignment([]);
+    setToneAnalysis(null);
+    setAnalysisError(null);
     
     try {
       const result = await spitchService.analyzePronunciation(
@@ -145,6 +178,8 @@ export const PronunciationPractice = ({
 
       setScore(result.score);
       setFeedback(result.feedback);
+      setAlignment(result.alignment);
+      setToneAnalysis(result.details?.tone ?? null);
 
       if (result.score >= 0.7 && onComplete) {
         onComplete(result.score);
@@ -154,16 +189,50 @@ export const PronunciationPractice = ({
       }
     } catch (error) {
       console.error('Analysis failed:', error);
-      showToast.error('Analysis failed. Please ensure your API key is configured correctly.');
+      const analysisFailure = error instanceof PronunciationError
+        ? error
+        : new PronunciationError('server', 'Analysis failed. Please try again.');
+      setAnalysisError(analysisFailure);
+      showToast.error(analysisFailure.message);
     } finally {
       setIsAnalyzing(false);
     }
   };
 
+  const playRecording = async () => {
+    if (!audioBlob) return;
+
+    if (audioRef.current) {
+      audioRef.current.pause();
+    }
+
+    const recordingUrl = URL.createObjectURL(audioBlob);
+    audioRef.current = new Audio(recordingUrl);
+    audioRef.current.onended = () => URL.revokeObjectURL(recordingUrl);
+
+    try {
+      await audioRef.current.play();
+    } catch (error) {
+      console.error('Failed to play recording:', error);
+      showToast.error('Failed to play your recording');
+    }
+  };
+
+  const enterOfflineMode = () => {
+    setOfflineMode(true);
+    setAnalysisError(null);
+    setScore(null);
+    showToast.info('Offline practice: compare by ear. No XP or cowries are awarded.');
+  };
+
   const resetPractice = () => {
     setAudioBlob(null);
     setScore(null);
     setFeedback([]);
+    setAlignment([]);
+    setToneAnalysis(null);
+    setAnalysisError(null);
+    setAttemptContour(null);
     setHasListenedToExample(false);
     
     if (audioRef.current) {
@@ -172,12 +241,40 @@ export const PronunciationPractice = ({
     }
   };
 
+  const canRecord = hasListenedToExample || offlineMode;
+
   const getScoreColor = (score: number) => {
     if (score >= 0.8) return 'from-emerald-500 to-teal-600';
     if (score >= 0.6) return 'from-yellow-500 to-orange-600';
     return 'from-orange-500 to-red-600';
   };
 
+  const getWordStyle = (entry: WordAlignment) => {
+    switch (entry.operation) {
+      case 'match':
+        return isDark ? 'bg-emerald-600/20 text-emerald-400' : 'bg-emerald-50 text-emerald-700';
+      case 'substitution':
+        return isDark ? 'bg-yellow-600/20 text-yellow-400' : 'bg-yellow-50 text-yellow-700';
+      case 'deletion':
+        return isDark ? 'bg-red-600/20 text-red-400 line-through' : 'bg-red-50 text-red-700 line-through';
+      default:
+        return isDark ? 'bg-gray-700 text-gray-400 italic' : 'bg-gray-100 text-gray-500 italic';
+    }
+  };
+
+  const getWordHint = (entry: WordAlignment) => {
+    switch (entry.operation) {
+      case 'match':
+        return 'Correct';
+      case 'substitution':
+        return `You said "${entry.actual}"`;
+      case 'deletion':
+        return 'Missed';
+      default:
+        return 'Extra word';
+    }
+  };
+
   const getScoreEmoji = (score: number) => {
     if (score >= 0.9) return '🎉';
     if (score >= 0.8) return '🌟';
@@ -208,6 +305,14 @@ export const PronunciationPractice = ({
               {language === 'ig' && ' Focus on nasal sounds and pronunciation.'}
               {language === 'ha' && ' Notice the glottal stops and intonation.'}
             </p>
+            {!offlineMode && (
+              <button
+                onClick={enterOfflineMode}
+                className={`mt-2 text-sm font-medium underline ${isDark ? 'text-gray-400 hover:text-gray-200' : 'text-blue-700 hover:text-blue-900'}`}
+              >
+                No connection? Practice offline without rewards
+              </button>
+            )}
           </div>
         </div>
       </motion.div>
@@ -294,9 +399,9 @@ export const PronunciationPractice = ({
         {/* Record Button */}
         <motion.button
           onClick={isRecording ? stopRecording : startRecording}
-          disabled={!hasListenedToExample}
+          disabled={!canRecord}
           className={`relative overflow-hidden p-6 rounded-2xl font-semibold transition-all ${
-            !hasListenedToExample
+            !canRecord
               ? isDark
                 ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
                 : 'bg-gray-200 text-gray-400 cursor-not-allowed'
@@ -310,8 +415,8 @@ export const PronunciationPractice = ({
                     ? 'bg-gray-700 hover:bg-gray-600 text-white'
                     : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
           }`}
-          whileHover={hasListenedToExample && !isRecording ? { scale: 1.05 } : {}}
-          whileTap={hasListenedToExample && !isRecording ? { scale: 0.95 } : {}}
+          whileHover={canRecord && !isRecording ? { scale: 1.05 } : {}}
+          whileTap={canRecord && !isRecording ? { scale: 0.95 } : {}}
         >
           <div className="flex items-center justify-center gap-3">
             {isRecording ? <MicOff className="w-6 h-6" /> : <Mic className="w-6 h-6" />}
@@ -342,7 +447,7 @@ export const PronunciationPractice = ({
             exit={{ opacity: 0, y: -20 }}
           >
             <motion.button
-              onClick={analyzePronunciation}
+              onClick={offlineMode ? playRecording : analyzePronunciation}
               disabled={isAnalyzing}
               className="flex-1 px-6 py-4 bg-gradient-to-r from-emerald-600 to-teal-600 text-white font-semibold rounded-xl
                        hover:from-emerald-700 hover:to-teal-700 disabled:opacity-50 disabled:cursor-not-allowed
@@ -350,7 +455,12 @@ export const PronunciationPractice = ({
               whileHover={!isAnalyzing ? { scale: 1.02 } : {}}
               whileTap={!isAnalyzing ? { scale: 0.98 } : {}}
             >
-              {isAnalyzing ? (
+              {offlineMode ? (
+                <>
+                  <Play className="w-5 h-5" />
+                  Play My Recording
+                </>
+              ) : isAnalyzing ? (
                 <>
                   <Loader2 className="w-5 h-5 animate-spin" />
                   Analyzing...
@@ -380,6 +490,85 @@ export const PronunciationPractice = ({
         )}
       </AnimatePresence>
 
+      {/* Pitch Contour */}
+      {attemptContour && (
+        <PitchContourChart
+          reference={exampleContour}
+          attempt={attemptContour}
+          isDark={isDark}
+        />
+      )}
+
+      {/* Analysis Error */}
+      <AnimatePresence>
+        {analysisError && !offlineMode && (
+          <motion.div
+            className={`p-6 rounded-2xl border ${
+              isDark ? 'bg-red-900/20 border-red-800' : 'bg-red-50 border-red-200'
+            }`}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+          >
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 mt-0.5 text-red-500 flex-shrink-0" />
+              <div className="flex-1">
+                <p className={`text-sm mb-4 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                  {analysisError.message}
+                </p>
+                <div className="flex flex-wrap gap-3">
+                  {analysisError.retryable ? (
+                    <button
+                      onClick={analyzePronunciation}
+                      disabled={isAnalyzing}
+                      className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Retry
+                    </button>
+                  ) : (
+                    <button
+                      onClick={resetPractice}
+                      className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-medium flex items-center gap-2"
+                    >
+                      <Mic className="w-4 h-4" />
+                      Record Again
+                    </button>
+                  )}
+                  <button
+                    onClick={enterOfflineMode}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 ${
+                      isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-200 hover:bg-gray-300'
+                    }`}
+                  >
+                    <WifiOff className="w-4 h-4" />
+                    Practice Offline (no rewards)
+                  </button>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Offline Practice Banner */}
+      {offlineMode && (
+        <div className={`flex items-center justify-between gap-3 p-4 rounded-xl ${
+          isDark ? 'bg-gray-700' : 'bg-gray-100'
+        }`}>
+          <div className="flex items-center gap-2 text-sm">
+            <WifiOff className="w-4 h-4" />
+            <span>Offline practice - compare your recording with the example. No XP or cowries.</span>
+          </div>
+          <button
+            onClick={() => setOfflineMode(false)}
+            className="text-sm font-medium text-emerald-500 hover:text-emerald-400 whitespace-nowrap"
+          >
+            Back to scored practice
+          </button>
+        </div>
+      )}
+
       {/* Results */}
       <AnimatePresence>
         {score !== null && (
@@ -425,6 +614,78 @@ export const PronunciationPractice = ({
               </motion.div>
             </motion.div>
 
+            {/* Word-by-word breakdown */}
+            {alignment.length > 0 && (
+              <motion.div
+                className={`p-6 rounded-2xl ${isDark ? 'bg-gray-800' : 'bg-white'} shadow-lg`}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.35 }}
+              >
+                <h4 className="font-bold text-lg mb-4">Word by Word</h4>
+                <div className="flex flex-wrap gap-3">
+                  {alignment.map((entry, idx) => (
+                    <div
+                      key={idx}
+                      className={`px-3 py-2 rounded-lg text-center ${getWordStyle(entry)}`}
+                      title={getWordHint(entry)}
+                    >
+                      <div className="font-semibold font-nigerian">
+                        {entry.operation === 'insertion' ? `+${entry.actual}` : entry.expected}
+                      </div>
+                      <div className="text-xs mt-1 opacity-80 not-italic no-underline">
+                        {getWordHint(entry)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+
+            {/* Tone breakdown */}
+            {toneAnalysis && (
+              <motion.div
+                className={`p-6 rounded-2xl ${isDark ? 'bg-gray-800' : 'bg-white'} shadow-lg`}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.38 }}
+              >
+                <div className="flex items-center justify-between mb-4">
+                  <h4 className="font-bold text-lg">Tones</h4>
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    isDark ? 'bg-gray-700' : 'bg-gray-100'
+                  }`}>
+                    {Math.round(toneAnalysis.accuracy * 100)}% of {toneAnalysis.syllablesChecked} syllables
+                  </span>
+                </div>
+                {toneAnalysis.errors.length === 0 ? (
+                  <p className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                    Every syllable had the right tone.
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {toneAnalysis.errors.map((error, idx) => (
+                      <li
+                        key={idx}
+                        className={`flex items-center justify-between p-3 rounded-lg text-sm ${
+                          isDark ? 'bg-gray-700' : 'bg-gray-100'
+                        }`}
+                      >
+                        <span>
+                          <span className="font-semibold font-nigerian">{error.word}</span>
+                          {' '}· syllable {error.syllableIndex + 1} ({error.syllable})
+                        </span>
+                        <span className={isDark ? 'text-gray-300' : 'text-gray-700'}>
+                          expected <span className="font-semibold text-emerald-500">{error.expectedTone}</span>,
+                          {' '}heard <span className="font-semibold text-orange-500">{error.actualTone}</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </motion.div>
+            )}
+
             {/* Feedback */}
             {feedback.length > 0 && (
               <motion.div
@@ -0,0 +1,69 @@
+import { motion } from 'framer-motion';
+import { ArrowRight, RotateCcw, Zap, Sparkles } from 'lucide-react';
+import type { LearningPlan, LessonRecommendation } from '../../services/recommendation.service';
+
+interface RecommendedLessonsProps {
+  plan: LearningPlan;
+  currentLessonId?: string;
+  isDark?: boolean;
+  onSelect: (recommendation: LessonRecommendation) => void;
+}
+
+const kindDisplay = {
+  next: { label: 'Up next', icon: ArrowRight, color: 'text-emerald-500' },
+  remedial: { label: 'Review', icon: RotateCcw, color: 'text-orange-500' },
+  test_out: { label: 'Test out', icon: Zap, color: 'text-yellow-500' }
+};
+
+export const RecommendedLessons = ({ plan, currentLessonId, isDark = true, onSelect }: RecommendedLessonsProps) => {
+  const recommendations = [
+    ...(plan.next ? [plan.next] : []),
+    ...plan.remedial,
+    ...plan.testOut
+  ];
+
+  if (recommendations.length === 0) return null;
+
+  return (
+    <motion.div
+      className={`mt-6 rounded-2xl p-6 ${isDark ? 'bg-gray-800' : 'bg-white'} shadow-lg`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+    >
+      <h3 className="font-bold mb-4 flex items-center gap-2">
+        <Sparkles className="w-4 h-4 text-emerald-500" />
+        Recommended for you
+      </h3>
+      <div className="space-y-3">
+        {recommendations.map(recommendation => {
+          const display = kindDisplay[recommendation.kind];
+          const isCurrent = recommendation.lesson.id === currentLessonId && recommendation.kind !== 'test_out';
+
+          return (
+            <motion.button
+              key={`${recommendation.kind}-${recommendation.lesson.id}`}
+              onClick={() => onSelect(recommendation)}
+              disabled={isCurrent}
+              className={`w-full p-3 rounded-lg text-left transition-colors ${
+                isCurrent
+                  ? isDark ? 'bg-gray-600 ring-2 ring-emerald-500' : 'bg-emerald-50 ring-2 ring-emerald-500'
+                  : isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+              }`}
+              whileHover={!isCurrent ? { scale: 1.02 } : {}}
+            >
+              <span className={`flex items-center gap-1 text-xs font-medium uppercase ${display.color}`}>
+                <display.icon className="w-3 h-3" />
+                {display.label}
+              </span>
+              <p className="font-semibold">{recommendation.lesson.title}</p>
+              <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                {recommendation.reason}
+              </p>
+            </motion.button>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+};
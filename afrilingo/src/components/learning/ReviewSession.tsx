@@ -0,0 +1,311 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Volume2, Loader2, CheckCircle, X, RotateCcw, PartyPopper } from 'lucide-react';
+import { reviewService, type ReviewItem } from '../../services/review.service';
+import { spitchService, SpitchQuotaError } from '../../services/spitch.service';
+import type { ReviewGrade } from '../../utils/srs';
+import { showToast } from '../../utils/toast';
+import { normalizeAnswer } from '../../utils/grading';
+
+interface ReviewSessionProps {
+  userId: string;
+  language: 'yo' | 'ig' | 'ha' | 'en';
+  isDark?: boolean;
+  onComplete?: (reviewed: number) => void;
+}
+
+type CardType = 'recognition' | 'production' | 'listening';
+
+const SESSION_SIZE = 20;
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Alternate card types so each word is practised in different directions
+const cardTypeFor = (position: number, canListen: boolean): CardType => {
+  const types: CardType[] = canListen
+    ? ['recognition', 'listening', 'production']
+    : ['recognition', 'production'];
+  return types[position % types.length];
+};
+
+export const ReviewSession = ({ userId, language, isDark = true, onComplete }: ReviewSessionProps) => {
+  const [pool, setPool] = useState<ReviewItem[]>([]);
+  const [queue, setQueue] = useState<ReviewItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [position, setPosition] = useState(0);
+  const [options, setOptions] = useState<string[]>([]);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [answer, setAnswer] = useState<{ given: string; correct: boolean } | null>(null);
+  const [reviewed, setReviewed] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const current = queue[0];
+  const cardType = cardTypeFor(position, language !== 'en');
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      setIsLoading(true);
+      const items = await reviewService.getReviewItems(userId, language);
+      setPool(items);
+      setQueue(reviewService.getDue(items).slice(0, SESSION_SIZE));
+      setPosition(0);
+      setReviewed(0);
+      setIsLoading(false);
+    };
+
+    loadQueue();
+  }, [userId, language]);
+
+  // Multiple-choice options for the current card
+  useEffect(() => {
+    if (!current) return;
+
+    const field = cardType === 'recognition' ? 'translation' : 'word';
+    const correct = current.vocabulary[field];
+    const distractors = shuffle(
+      Array.from(new Set(pool.map(item => item.vocabulary[field]).filter(value => value !== correct)))
+    ).slice(0, 3);
+
+    setOptions(shuffle([correct, ...distractors]));
+    setTypedAnswer('');
+    setAnswer(null);
+
+    if (cardType === 'listening') {
+      playWord(current.vocabulary.word);
+    }
+  }, [current?.vocabulary.id, position]);
+
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const playWord = async (word: string) => {
+    setIsPlaying(true);
+    try {
+      const blob = await spitchService.generateSpeech(word, language);
+      audioRef.current?.pause();
+      audioRef.current = new Audio(URL.createObjectURL(blob));
+      audioRef.current.onended = () => setIsPlaying(false);
+      await audioRef.current.play();
+    } catch (error) {
+      console.error('Review audio error:', error);
+      showToast.error(error instanceof SpitchQuotaError ? error.message : 'Could not play audio');
+      setIsPlaying(false);
+    }
+  };
+
+  const submitAnswer = (given: string) => {
+    if (!current || answer) return;
+
+    const expected = cardType === 'recognition' ? current.vocabulary.translation : current.vocabulary.word;
+    setAnswer({ given, correct: normalizeAnswer(given) === normalizeAnswer(expected) });
+  };
+
+  const gradeCard = async (grade: ReviewGrade) => {
+    if (!current) return;
+
+    const updated = await reviewService.recordReview(userId, current, grade);
+    setPool(prev => prev.map(item => (item.vocabulary.id === updated.vocabulary.id ? updated : item)));
+
+    // Forgotten words come back at the end of this session
+    const remaining = grade === 'again' ? [...queue.slice(1), updated] : queue.slice(1);
+    setQueue(remaining);
+    setPosition(position + 1);
+
+    const count = reviewed + 1;
+    setReviewed(count);
+    if (remaining.length === 0) {
+      onComplete?.(count);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-emerald-600" />
+      </div>
+    );
+  }
+
+  if (!current) {
+    const nextDue = pool
+      .map(item => item.dueAt)
+      .filter(dueAt => new Date(dueAt) > new Date())
+      .sort()[0];
+
+    return (
+      <div className="text-center py-12">
+        <PartyPopper className="w-12 h-12 text-emerald-500 mx-auto mb-4" />
+        <h3 className="text-xl font-bold mb-2">
+          {reviewed > 0 ? `${reviewed} reviews done!` : 'All caught up!'}
+        </h3>
+        <p className={isDark ? 'text-gray-400' : 'text-gray-600'}>
+          {pool.length === 0
+            ? 'Complete a lesson to add its words to your reviews.'
+            : nextDue
+              ? `Next review due ${new Date(nextDue).toDateString() === new Date().toDateString()
+                ? 'later today'
+                : `on ${new Date(nextDue).toLocaleDateString()}`}.`
+              : 'Come back tomorrow for more reviews.'}
+        </p>
+      </div>
+    );
+  }
+
+  const expected = cardType === 'recognition' ? current.vocabulary.translation : current.vocabulary.word;
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <span className={`text-sm font-medium ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+          {queue.length} left · {reviewed} reviewed
+        </span>
+        <span className={`px-3 py-1 rounded-full text-sm font-medium capitalize ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}>
+          {cardType}
+        </span>
+      </div>
+
+      <AnimatePresence mode="wait">
+        <motion.div
+          key={`${current.vocabulary.id}-${position}`}
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: -20 }}
+        >
+          {/* Prompt */}
+          <div className="text-center mb-8">
+            {cardType === 'recognition' && (
+              <>
+                <p className={`text-sm mb-2 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>What does this mean?</p>
+                <h3 className="text-3xl font-bold">{current.vocabulary.word}</h3>
+              </>
+            )}
+            {cardType === 'production' && (
+              <>
+                <p className={`text-sm mb-2 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>How do you say this?</p>
+                <h3 className="text-3xl font-bold">{current.vocabulary.translation}</h3>
+              </>
+            )}
+            {cardType === 'listening' && (
+              <>
+                <p className={`text-sm mb-4 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Which word did you hear?</p>
+                <button
+                  onClick={() => playWord(current.vocabulary.word)}
+                  disabled={isPlaying}
+                  className="p-6 rounded-full bg-gradient-to-r from-emerald-500 to-teal-600 text-white disabled:opacity-70"
+                  aria-label="Play word"
+                >
+                  {isPlaying ? <Loader2 className="w-8 h-8 animate-spin" /> : <Volume2 className="w-8 h-8" />}
+                </button>
+              </>
+            )}
+          </div>
+
+          {/* Answer */}
+          {cardType === 'production' ? (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (typedAnswer.trim()) submitAnswer(typedAnswer);
+              }}
+              className="flex gap-3"
+            >
+              <input
+                value={typedAnswer}
+                onChange={(e) => setTypedAnswer(e.target.value)}
+                disabled={!!answer}
+                autoFocus
+                placeholder="Type your answer..."
+                className={`flex-1 p-4 rounded-xl outline-none ${
+                  isDark ? 'bg-gray-700 focus:bg-gray-600' : 'bg-gray-100 focus:bg-gray-200'
+                }`}
+              />
+              {!answer && (
+                <button
+                  type="submit"
+                  className="px-6 rounded-xl bg-gradient-to-r from-emerald-500 to-teal-600 text-white font-medium"
+                >
+                  Check
+                </button>
+              )}
+            </form>
+          ) : (
+            <div className="space-y-3">
+              {options.map(option => (
+                <button
+                  key={option}
+                  onClick={() => submitAnswer(option)}
+                  disabled={!!answer}
+                  className={`w-full p-4 rounded-xl text-left font-medium transition-colors ${
+                    answer && option === expected
+                      ? 'bg-green-500 text-white'
+                      : answer && option === answer.given
+                        ? 'bg-red-500 text-white'
+                        : isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Feedback and grading */}
+          {answer && (
+            <motion.div
+              className={`mt-6 p-4 rounded-xl ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+            >
+              <div className="flex items-center gap-2 mb-4">
+                {answer.correct
+                  ? <CheckCircle className="w-5 h-5 text-green-500" />
+                  : <X className="w-5 h-5 text-red-500" />}
+                <span className="font-medium">
+                  {answer.correct ? 'Correct!' : `Answer: ${expected}`}
+                </span>
+                {current.vocabulary.pronunciation && (
+                  <span className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                    ({current.vocabulary.pronunciation})
+                  </span>
+                )}
+              </div>
+
+              {answer.correct ? (
+                <div className="grid grid-cols-3 gap-3">
+                  {(['hard', 'good', 'easy'] as ReviewGrade[]).map(grade => (
+                    <button
+                      key={grade}
+                      onClick={() => gradeCard(grade)}
+                      className={`p-3 rounded-lg font-medium capitalize ${
+                        isDark ? 'bg-gray-600 hover:bg-gray-500' : 'bg-white hover:bg-gray-50'
+                      }`}
+                    >
+                      {grade}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <button
+                  onClick={() => gradeCard('again')}
+                  className={`w-full flex items-center justify-center gap-2 p-3 rounded-lg font-medium ${
+                    isDark ? 'bg-gray-600 hover:bg-gray-500' : 'bg-white hover:bg-gray-50'
+                  }`}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Review again later
+                </button>
+              )}
+            </motion.div>
+          )}
+        </motion.div>
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { spitchService, SpitchError, type TranslationLanguage } from '../../services/spitch.service';
+import { Languages, Loader2, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+interface TranslatableTextProps {
+  text: string;
+  source: TranslationLanguage;
+  target?: TranslationLanguage;
+  className?: string;
+}
+
+interface Segment {
+  text: string;
+  word: string; // Token without surrounding punctuation; empty for whitespace
+  sentence: number;
+}
+
+type TranslationState =
+  | { status: 'idle' }
+  | { status: 'loading' }
+  | { status: 'done'; text: string }
+  | { status: 'error'; message: string };
+
+// Leading and trailing characters that aren't part of the word. Marks
+// are kept: a tone mark can follow a letter that has no precomposed form.
+const EDGE_PUNCTUATION = /^[^\p{L}\p{M}\p{N}]+|[^\p{L}\p{M}\p{N}]+$/gu;
+
+/**
+ * Split text into words and the whitespace between them, numbering the
+ * sentence each one belongs to
+ */
+const segmentText = (text: string): { segments: Segment[]; sentences: string[] } => {
+  const segments: Segment[] = [];
+  const sentences: string[] = [''];
+
+  text.split(/(\s+)/).filter(Boolean).forEach(token => {
+    const isSpace = /^\s+$/.test(token);
+    if (isSpace && token.includes('\n') && sentences[sentences.length - 1].trim()) {
+      sentences.push('');
+    }
+
+    const sentence = sentences.length - 1;
+    segments.push({ text: token, word: isSpace ? '' : token.replace(EDGE_PUNCTUATION, ''), sentence });
+    sentences[sentence] += token;
+
+    if (!isSpace && /[.!?…]["')\]]*$/.test(token)) sentences.push('');
+  });
+
+  return { segments, sentences: sentences.map(sentence => sentence.trim()) };
+};
+
+/**
+ * Text whose words can be tapped to see a translation, with the option
+ * to translate the whole sentence around the word
+ */
+export const TranslatableText = ({
+  text,
+  source,
+  target = 'en',
+  className
+}: TranslatableTextProps) => {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [wordTranslation, setWordTranslation] = useState<TranslationState>({ status: 'idle' });
+  const [sentenceTranslation, setSentenceTranslation] = useState<TranslationState>({ status: 'idle' });
+
+  const containerRef = useRef<HTMLSpanElement>(null);
+  // Bumped on every tap so a slow answer for an earlier word is ignored
+  const requestRef = useRef(0);
+
+  const isDark = document.documentElement.classList.contains('dark') ||
+                document.body.classList.contains('bg-gray-900') ||
+                true; // Default to dark mode
+
+  const { segments, sentences } = useMemo(() => segmentText(text), [text]);
+  const active = activeIndex !== null ? segments[activeIndex] : null;
+  const activeSentence = active ? sentences[active.sentence] : '';
+
+  useEffect(() => {
+    setActiveIndex(null);
+  }, [text, source, target]);
+
+  useEffect(() => {
+    if (activeIndex === null) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setActiveIndex(null);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setActiveIndex(null);
+    };
+
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [activeIndex]);
+
+  const translateInto = async (
+    phrase: string,
+    setState: (state: TranslationState) => void
+  ) => {
+    const request = requestRef.current;
+    setState({ status: 'loading' });
+    try {
+      const translation = await spitchService.translate(phrase, source, target);
+      if (request === requestRef.current) setState({ status: 'done', text: translation });
+    } catch (error) {
+      console.error('Translation error:', error);
+      if (request === requestRef.current) {
+        setState({
+          status: 'error',
+          message: error instanceof SpitchError ? error.message : 'Translation is unavailable right now'
+        });
+      }
+    }
+  };
+
+  const selectWord = (index: number) => {
+    requestRef.current++;
+    if (activeIndex === index) {
+      setActiveIndex(null);
+      return;
+    }
+
+    setActiveIndex(index);
+    setSentenceTranslation({ status: 'idle' });
+    translateInto(segments[index].word, setWordTranslation);
+  };
+
+  const renderTranslation = (state: TranslationState) => {
+    if (state.status === 'loading') {
+      return <Loader2 size={16} className="animate-spin text-emerald-500" />;
+    }
+    if (state.status === 'error') {
+      return <span className="text-red-400">{state.message}</span>;
+    }
+    if (state.status === 'done') {
+      return <span className={isDark ? 'text-white' : 'text-gray-900'}>{state.text}</span>;
+    }
+    return null;
+  };
+
+  return (
+    <span ref={containerRef} className={className}>
+      {segments.map((segment, idx) => {
+        if (!segment.word) return segment.text;
+
+        return (
+          <span key={idx} className="relative inline-block">
+            <span
+              role="button"
+              tabIndex={0}
+              onClick={() => selectWord(idx)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  selectWord(idx);
+                }
+              }}
+              className={`cursor-pointer rounded transition-colors decoration-dotted underline-offset-4 hover:underline ${
+                activeIndex === idx ? 'bg-emerald-500/30 underline' : 'hover:bg-emerald-500/10'
+              }`}
+              title="Tap to translate"
+            >
+              {segment.text}
+            </span>
+
+            <AnimatePresence>
+              {activeIndex === idx && (
+                <motion.span
+                  className={`absolute left-0 top-full z-30 mt-2 block w-64 rounded-xl p-4 text-left text-sm not-italic font-normal shadow-2xl ${
+                    isDark ? 'bg-gray-900 border border-gray-700 text-gray-300' : 'bg-white border border-gray-200 text-gray-700'
+                  }`}
+                  initial={{ opacity: 0, y: -5 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -5 }}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <span className="flex items-start justify-between gap-2 mb-2">
+                    <span className="font-semibold text-emerald-400">{segment.word}</span>
+                    <button
+                      onClick={() => setActiveIndex(null)}
+                      className={isDark ? 'text-gray-500 hover:text-white' : 'text-gray-400 hover:text-gray-900'}
+                      title="Close"
+                    >
+                      <X size={14} />
+                    </button>
+                  </span>
+                  <span className="block min-h-[1.25rem]">{renderTranslation(wordTranslation)}</span>
+
+                  {activeSentence && activeSentence !== segment.word && (
+                    <span className={`block mt-3 pt-3 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                      {sentenceTranslation.status === 'idle' ? (
+                        <button
+                          onClick={() => translateInto(activeSentence, setSentenceTranslation)}
+                          className="flex items-center gap-2 text-emerald-400 hover:text-emerald-300"
+                        >
+                          <Languages size={14} />
+                          Translate sentence
+                        </button>
+                      ) : (
+                        <span className="block italic">{renderTranslation(sentenceTranslation)}</span>
+                      )}
+                    </span>
+                  )}
+                </motion.span>
+              )}
+            </AnimatePresence>
+          </span>
+        );
+      })}
+    </span>
+  );
+};
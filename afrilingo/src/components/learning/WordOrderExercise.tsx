@@ -0,0 +1,195 @@
+import { useState, useRef, useEffect, type KeyboardEvent, type DragEvent } from 'react';
+import { motion } from 'framer-motion';
+import { markWordPositions } from '../../utils/grading';
+
+interface WordOrderExerciseProps {
+  tiles: string[];
+  answers: string[]; // Every accepted order
+  color: string;
+  disabled?: boolean;
+  showResult?: boolean; // Mark each placed tile right or wrong
+  isDark?: boolean;
+  onSubmit: (answer: string) => void;
+}
+
+// Shuffle tile indices, making sure they don't start out in order
+const shuffledOrder = (count: number): number[] => {
+  const order = Array.from({ length: count }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (count > 1 && order.every((tile, i) => tile === i)) {
+    order.push(order.shift()!);
+  }
+  return order;
+};
+
+export const WordOrderExercise = ({
+  tiles,
+  answers,
+  color,
+  disabled = false,
+  showResult = false,
+  isDark = true,
+  onSubmit
+}: WordOrderExerciseProps) => {
+  const [bankOrder] = useState(() => shuffledOrder(tiles.length));
+  const [placed, setPlaced] = useState<number[]>([]);
+  const [focusTile, setFocusTile] = useState<number | null>(null);
+  const tileRefs = useRef<Record<number, HTMLButtonElement | null>>({});
+
+  // Keep keyboard focus on a tile after it moves
+  useEffect(() => {
+    if (focusTile !== null) {
+      tileRefs.current[focusTile]?.focus();
+      setFocusTile(null);
+    }
+  }, [focusTile, placed]);
+
+  const bank = bankOrder.filter(tile => !placed.includes(tile));
+  const positions = showResult ? markWordPositions(answers, placed.map(tile => tiles[tile])) : null;
+
+  const place = (tile: number, before?: number) => {
+    if (disabled) return;
+    setPlaced(prev => {
+      const without = prev.filter(t => t !== tile);
+      const index = before === undefined ? without.length : without.indexOf(before);
+      return [...without.slice(0, index), tile, ...without.slice(index)];
+    });
+    setFocusTile(tile);
+  };
+
+  const remove = (tile: number) => {
+    if (disabled) return;
+    setPlaced(prev => prev.filter(t => t !== tile));
+    setFocusTile(tile);
+  };
+
+  const move = (tile: number, offset: number) => {
+    const index = placed.indexOf(tile);
+    const target = index + offset;
+    if (disabled || target < 0 || target >= placed.length) return;
+    const next = [...placed];
+    [next[index], next[target]] = [next[target], next[index]];
+    setPlaced(next);
+    setFocusTile(tile);
+  };
+
+  const handlePlacedKeyDown = (event: KeyboardEvent, tile: number) => {
+    if (event.key === 'ArrowLeft' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      move(tile, -1);
+    } else if (event.key === 'ArrowRight' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      move(tile, 1);
+    } else if (event.key === 'Backspace' || event.key === 'Delete') {
+      event.preventDefault();
+      remove(tile);
+    }
+  };
+
+  const startDrag = (event: DragEvent, tile: number) => {
+    event.dataTransfer.setData('text/plain', String(tile));
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  const draggedTile = (event: DragEvent) => {
+    const tile = Number(event.dataTransfer.getData('text/plain'));
+    return Number.isInteger(tile) && tile >= 0 && tile < tiles.length ? tile : null;
+  };
+
+  const dropOnSentence = (event: DragEvent, before?: number) => {
+    event.preventDefault();
+    event.stopPropagation();
+    const tile = draggedTile(event);
+    if (tile !== null && tile !== before) place(tile, before);
+  };
+
+  const dropOnBank = (event: DragEvent) => {
+    event.preventDefault();
+    const tile = draggedTile(event);
+    if (tile !== null) remove(tile);
+  };
+
+  const tileClass = (state: 'neutral' | 'right' | 'wrong') =>
+    `px-4 py-2 rounded-lg font-medium transition-colors ${
+      state === 'right'
+        ? 'bg-green-500 text-white'
+        : state === 'wrong'
+          ? 'bg-red-500 text-white'
+          : isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+    } ${disabled ? 'cursor-default' : 'cursor-grab'}`;
+
+  return (
+    <div>
+      <p id="word-order-instructions" className="sr-only">
+        Choose words from the bank to build the sentence. In the sentence, use the arrow keys
+        to move a word and Delete to send it back to the bank.
+      </p>
+
+      {/* Sentence */}
+      <ul
+        aria-label="Your sentence"
+        aria-describedby="word-order-instructions"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => dropOnSentence(e)}
+        className={`min-h-[4rem] p-3 mb-6 flex flex-wrap gap-2 rounded-xl border-2 border-dashed ${
+          isDark ? 'border-gray-600' : 'border-gray-300'
+        }`}
+      >
+        {placed.map((tile, index) => (
+          <motion.li key={tile} layout>
+            <button
+              ref={(el) => { tileRefs.current[tile] = el; }}
+              draggable={!disabled}
+              onDragStart={(e) => startDrag(e, tile)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => dropOnSentence(e, tile)}
+              onClick={() => remove(tile)}
+              onKeyDown={(e) => handlePlacedKeyDown(e, tile)}
+              aria-disabled={disabled}
+              aria-label={`${tiles[tile]}, word ${index + 1} of ${placed.length}`}
+              className={tileClass(positions ? (positions[index] ? 'right' : 'wrong') : 'neutral')}
+            >
+              {tiles[tile]}
+            </button>
+          </motion.li>
+        ))}
+      </ul>
+
+      {/* Word bank */}
+      <ul
+        aria-label="Word bank"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={dropOnBank}
+        className="min-h-[3rem] flex flex-wrap gap-2 mb-6"
+      >
+        {bank.map(tile => (
+          <motion.li key={tile} layout>
+            <button
+              ref={(el) => { tileRefs.current[tile] = el; }}
+              draggable={!disabled}
+              onDragStart={(e) => startDrag(e, tile)}
+              onClick={() => place(tile)}
+              aria-disabled={disabled}
+              className={tileClass('neutral')}
+            >
+              {tiles[tile]}
+            </button>
+          </motion.li>
+        ))}
+      </ul>
+
+      {!disabled && (
+        <button
+          onClick={() => onSubmit(placed.map(tile => tiles[tile]).join(' '))}
+          disabled={placed.length === 0}
+          className={`w-full p-4 rounded-xl bg-gradient-to-r ${color} text-white font-medium disabled:opacity-50`}
+        >
+          Check
+        </button>
+      )}
+    </div>
+  );
+};
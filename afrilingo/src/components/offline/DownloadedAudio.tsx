@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { HardDrive, Trash2, Loader2 } from 'lucide-react';
+import { audioCache, type AudioCacheStats } from '../../services/audioCache.service';
+import { spitchService } from '../../services/spitch.service';
+import { showToast } from '../../utils/toast';
+
+interface DownloadedAudioProps {
+  isDark?: boolean;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const DownloadedAudio = ({ isDark = true }: DownloadedAudioProps) => {
+  const [stats, setStats] = useState<AudioCacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    audioCache.getStats().then(setStats);
+  }, []);
+
+  const clearDownloads = async () => {
+    setIsClearing(true);
+    try {
+      await spitchService.clearCache();
+      setStats(await audioCache.getStats());
+      showToast.success('Downloaded audio cleared');
+    } catch (error) {
+      console.error('Failed to clear audio cache:', error);
+      showToast.error('Failed to clear downloaded audio');
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  const usage = stats
+    ? Math.min(((stats.totalBytes - stats.pinnedBytes) / stats.maxBytes) * 100, 100)
+    : 0;
+  const lookups = stats ? stats.hits + stats.misses : 0;
+
+  return (
+    <motion.div
+      className={`rounded-2xl p-6 ${isDark ? 'bg-gray-800' : 'bg-white'} shadow-lg`}
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ delay: 0.6 }}
+    >
+      <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+        <HardDrive className="w-5 h-5 text-emerald-600" />
+        Downloaded Audio
+      </h3>
+
+      {stats ? (
+        <div className="space-y-3">
+          <div className={`w-full h-2 rounded-full ${isDark ? 'bg-gray-700' : 'bg-gray-200'} overflow-hidden`}>
+            <div
+              className="h-full bg-gradient-to-r from-emerald-500 to-teal-600"
+              style={{ width: `${usage}%` }}
+            />
+          </div>
+          <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+            {stats.entries} clips · {formatBytes(stats.totalBytes)} of {formatBytes(stats.maxBytes)}
+          </p>
+          {stats.pinnedEntries > 0 && (
+            <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+              {stats.pinnedEntries} clips ({formatBytes(stats.pinnedBytes)}) are kept for offline lessons
+            </p>
+          )}
+          {lookups > 0 && (
+            <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+              {Math.round((stats.hits / lookups) * 100)}% played from this device this session
+            </p>
+          )}
+
+          <button
+            onClick={clearDownloads}
+            disabled={isClearing || stats.entries === stats.pinnedEntries}
+            className={`w-full flex items-center justify-center gap-2 p-3 rounded-lg ${
+              isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+            } transition-colors disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {isClearing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            Clear downloaded audio
+          </button>
+        </div>
+      ) : (
+        <Loader2 className="w-5 h-5 animate-spin text-emerald-600" />
+      )}
+    </motion.div>
+  );
+};
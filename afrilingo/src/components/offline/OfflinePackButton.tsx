@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, CheckCircle, Trash2, Loader2 } from 'lucide-react';
+import {
+  offlineLessonService,
+  type OfflineLessonPack,
+  type PackLanguage
+} from '../../services/offlineLessons.service';
+import { showToast } from '../../utils/toast';
+
+interface OfflinePackButtonProps {
+  language: PackLanguage;
+  isDark?: boolean;
+}
+
+export const OfflinePackButton = ({ language, isDark = true }: OfflinePackButtonProps) => {
+  const [pack, setPack] = useState<OfflineLessonPack | null>(() => offlineLessonService.getPack(language));
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+
+  const downloadPack = async () => {
+    setProgress({ completed: 0, total: 0 });
+    try {
+      const downloaded = await offlineLessonService.downloadPack(language, (completed, total) =>
+        setProgress({ completed, total })
+      );
+      setPack(downloaded);
+      showToast.success(`${downloaded.lessons.length} lessons saved for offline use`);
+    } catch (error) {
+      console.error('Offline download failed:', error);
+      showToast.error('Download failed. Please check your connection.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const removePack = async () => {
+    await offlineLessonService.removePack(language);
+    setPack(null);
+    showToast.info('Offline lessons removed');
+  };
+
+  return (
+    <motion.div
+      className={`mt-6 rounded-2xl p-6 ${isDark ? 'bg-gray-800' : 'bg-white'} shadow-lg`}
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.3 }}
+    >
+      <h3 className="font-bold mb-2">Offline Lessons</h3>
+      <p className={`text-sm mb-4 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+        {pack
+          ? `${pack.lessons.length} lessons downloaded ${new Date(pack.downloadedAt).toLocaleDateString()}`
+          : 'Save lessons and audio to keep learning without data.'}
+      </p>
+
+      {progress ? (
+        <div className="flex items-center gap-2 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin text-emerald-600" />
+          {progress.total > 0
+            ? `Downloading audio ${progress.completed}/${progress.total}...`
+            : 'Downloading lessons...'}
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button
+            onClick={downloadPack}
+            className={`flex-1 flex items-center justify-center gap-2 p-3 rounded-xl text-sm font-medium ${
+              isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'
+            }`}
+          >
+            {pack ? <CheckCircle className="w-4 h-4 text-emerald-500" /> : <Download className="w-4 h-4" />}
+            {pack ? 'Update' : 'Download for offline'}
+          </button>
+          {pack && (
+            <button
+              onClick={removePack}
+              className={`p-3 rounded-xl ${isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'}`}
+              aria-label="Remove offline lessons"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+};
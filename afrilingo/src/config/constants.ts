@@ -19,7 +19,9 @@ export const GAME_CURRENCY = {
 export const STORAGE_KEYS = {
   USER_PROGRESS: 'afrilingo_progress',
   OFFLINE_LESSONS: 'afrilingo_offline_lessons',
-  AUDIO_CACHE: 'afrilingo_audio_cache'
+  AUDIO_CACHE: 'afrilingo_audio_cache',
+  OUTBOX: 'afrilingo_outbox',
+  TRANSLATIONS: 'afrilingo_translations'
 } as const;
 
 // Achievement types
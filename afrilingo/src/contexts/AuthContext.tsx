@@ -1,5 +1,6 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { outboxService } from '../services/outbox.service';
 import { showToast } from '../utils/toast';
 
 // Define types based on what Supabase returns
@@ -47,6 +48,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         const { data: { session } } = await supabase.auth.getSession();
         setSession(session);
         setUser(session?.user ?? null);
+        outboxService.setUser(session?.user?.id ?? null);
       } catch (error) {
         console.error('Error initializing auth:', error);
       } finally {
@@ -62,6 +64,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     } = supabase.auth.onAuthStateChange((_event, session) => {
       setSession(session);
       setUser(session?.user ?? null);
+      outboxService.setUser(session?.user?.id ?? null);
       setLoading(false);
     });
 
@@ -112,6 +115,10 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
   const signOut = async () => {
     try {
+      // Send queued writes while they can still be made as this user;
+      // whatever is left is parked until they sign in again
+      await outboxService.flush();
+
       const { error } = await supabase.auth.signOut();
       if (error) {
         throw error;
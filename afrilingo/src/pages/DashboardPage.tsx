@@ -1,6 +1,20 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useGameStore } from '../stores/gameStore';
 import { UserStats } from '../components/gamification/UserStats';
+import { StreakCalendar } from '../components/gamification/StreakCalendar';
+import { DownloadedAudio } from '../components/offline/DownloadedAudio';
+import { WeeklyXPChart } from '../components/dashboard/WeeklyXPChart';
+import { SkillBreakdown } from '../components/dashboard/SkillBreakdown';
+import { RecentActivity } from '../components/dashboard/RecentActivity';
+import { lessonService } from '../services/lessonService';
+import {
+  dashboardService,
+  type DailyXP,
+  type SkillProgress,
+  type ActivityItem
+} from '../services/dashboard.service';
+import { achievementService } from '../services/achievement.service';
+import { formatRelativeTime } from '../utils/format';
 import { Icon } from '../utils/icons';
 import { useAuth } from '../contexts/AuthContext';
 import { 
@@ -11,51 +25,95 @@ import { motion, AnimatePresence } from 'framer-motion';
 
 const DashboardPage = () => {
   const { user, signOut } = useAuth();
-  const { level, xp, streakDays } = useGameStore();
+  const { level, xp, streakDays, refresh } = useGameStore();
   const [isDark, setIsDark] = useState(true);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [languageStats, setLanguageStats] = useState<Record<string, {
+    progress: number;
+    lessonsCompleted: number;
+    totalLessons: number;
+  }>>({});
+  const [weeklyXP, setWeeklyXP] = useState<DailyXP[]>([]);
+  const [skills, setSkills] = useState<SkillProgress[]>([]);
+  const [activity, setActivity] = useState<ActivityItem[]>([]);
+  const [recentAchievements, setRecentAchievements] = useState<Array<{
+    name: string;
+    icon: string;
+    date: string;
+  }>>([]);
+
+  // Pull the latest rewards, streak and progress from the server
+  useEffect(() => {
+    if (!user) return;
+    refresh();
+    loadDashboard(user.id);
+  }, [user]);
+
+  const loadDashboard = async (userId: string) => {
+    const [stats, week, skillProgress, recent, unlocks, definitions] = await Promise.allSettled([
+      lessonService.getUserStats(userId),
+      dashboardService.getWeeklyXP(userId),
+      dashboardService.getSkillBreakdown(userId),
+      dashboardService.getRecentActivity(userId),
+      achievementService.getUserAchievements(userId),
+      achievementService.getAchievements()
+    ]);
+
+    if (stats.status === 'fulfilled') {
+      setLanguageStats(Object.fromEntries(stats.value.languages.map(lang => [lang.language, lang])));
+    }
+    if (week.status === 'fulfilled') setWeeklyXP(week.value);
+    if (skillProgress.status === 'fulfilled') setSkills(skillProgress.value);
+    if (recent.status === 'fulfilled') setActivity(recent.value);
+
+    if (unlocks.status === 'fulfilled' && definitions.status === 'fulfilled') {
+      setRecentAchievements(unlocks.value.slice(0, 3).flatMap(unlock => {
+        const achievement = definitions.value.find(a => a.id === unlock.achievementId);
+        return achievement
+          ? [{ name: achievement.name, icon: achievement.icon, date: formatRelativeTime(unlock.unlockedAt) }]
+          : [];
+      }));
+    }
+
+    [stats, week, skillProgress, recent, unlocks, definitions]
+      .filter(result => result.status === 'rejected')
+      .forEach(result => console.error('Dashboard load error:', (result as PromiseRejectedResult).reason));
+  };
 
   const languages = [
     { 
       code: 'yoruba', 
+      languageCode: 'yo',
       name: 'Yoruba', 
       nativeName: 'Yorùbá',
       icon: 'yorubaMask',
-      progress: 35,
-      lessonsCompleted: 7,
-      totalLessons: 20,
       pattern: 'M10,10 L20,20 L30,10 L40,20',
       color: 'from-emerald-500 to-teal-600'
     },
     { 
       code: 'igbo', 
+      languageCode: 'ig',
       name: 'Igbo', 
       nativeName: 'Igbo',
       icon: 'igboBird',
-      progress: 15,
-      lessonsCompleted: 3,
-      totalLessons: 20,
       pattern: 'M15,15 m-5,0 a5,5 0 1,0 10,0 a5,5 0 1,0 -10,0',
       color: 'from-orange-500 to-red-600'
     },
     { 
       code: 'hausa', 
+      languageCode: 'ha',
       name: 'Hausa', 
       nativeName: 'Hausa',
       icon: 'hausaStar',
-      progress: 0,
-      lessonsCompleted: 0,
-      totalLessons: 20,
       pattern: 'M20,10 L30,20 L20,30 L10,20 Z',
       color: 'from-blue-500 to-indigo-600'
     }
-  ];
-
-  const recentAchievements = [
-    { name: 'First Word', icon: '🎯', date: '2 days ago' },
-    { name: 'Week Warrior', icon: '🔥', date: '1 week ago' },
-    { name: 'Pronunciation Pro', icon: '🗣️', date: '2 weeks ago' }
-  ];
+  ].map(lang => ({
+    ...lang,
+    progress: languageStats[lang.languageCode]?.progress || 0,
+    lessonsCompleted: languageStats[lang.languageCode]?.lessonsCompleted || 0,
+    totalLessons: languageStats[lang.languageCode]?.totalLessons || 0
+  }));
 
   const handleSignOut = async () => {
     await signOut();
@@ -289,6 +347,18 @@ const DashboardPage = () => {
                 ))}
               </div>
             </motion.div>
+
+            {/* Weekly XP & Skills */}
+            <div className="grid md:grid-cols-2 gap-8">
+              <WeeklyXPChart days={weeklyXP} isDark={isDark} />
+              <SkillBreakdown skills={skills} isDark={isDark} />
+            </div>
+
+            {/* Streak Calendar */}
+            <StreakCalendar isDark={isDark} />
+
+            {/* Recent Activity */}
+            <RecentActivity items={activity} isDark={isDark} />
           </div>
 
           {/* Sidebar */}
@@ -314,6 +384,11 @@ const DashboardPage = () => {
                 Recent Achievements
               </h3>
               <div className="space-y-3">
+                {recentAchievements.length === 0 && (
+                  <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                    Complete lessons to unlock your first achievement.
+                  </p>
+                )}
                 {recentAchievements.map((achievement, index) => (
                   <motion.div
                     key={index}
@@ -364,6 +439,9 @@ const DashboardPage = () => {
                 ))}
               </div>
             </motion.div>
+
+            {/* Offline Storage */}
+            <DownloadedAudio isDark={isDark} />
           </div>
         </div>
       </div>
@@ -0,0 +1,504 @@
+/**
+ * Local Spitch mock
+ * Answers the four endpoints the proxy forwards, without a Spitch key or
+ * network access, and always gives the same answer to the same request:
+ *
+ *   /v1/speech          synthetic WAV: one tone per syllable, pitched by its tone
+ *   /v1/transcriptions  scripted lines from a fixture, one per request
+ *   /v1/diacritics      tone marks restored from a dictionary built from content/
+ *   /v1/translate       a phrasebook built from the vocabulary in content/
+ *
+ *   npx tsx src/scripts/spitchMock.ts
+ *
+ * It can stand in for either side of the proxy:
+ *   - VITE_SPITCH_PROXY_URL=http://localhost:8787 points the app straight at
+ *     it (requests arrive as POST /?endpoint=/v1/...), skipping auth and quotas
+ *   - SPITCH_API_URL=http://host.docker.internal:8787 makes a locally served
+ *     spitch-proxy forward to it (requests arrive as POST /v1/...)
+ *
+ * Transcriptions come from the fixture named by the X-Spitch-Mock-Fixture
+ * header, the ?fixture= query or SPITCH_MOCK_FIXTURE, in that order, and
+ * step through its lines per language. Audio produced by /v1/speech is
+ * transcribed back to the text it was made from. POST /reset rewinds every
+ * fixture. SPITCH_MOCK_PORT sets the port (default 8787).
+ */
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { fileURLToPath } from 'url';
+import { extractToneUnits, type Tone } from '../utils/tones';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const projectRoot = path.resolve(__dirname, '../..');
+
+const PORT = Number(process.env.SPITCH_MOCK_PORT) || 8787;
+const DEFAULT_FIXTURE = process.env.SPITCH_MOCK_FIXTURE || 'default';
+const FIXTURES_FILE = path.join(__dirname, 'spitchMock.fixtures.json');
+const CONTENT_DIR = path.join(projectRoot, 'content');
+
+const ENDPOINTS = ['/v1/speech', '/v1/transcriptions', '/v1/diacritics', '/v1/translate'];
+const LANGUAGES = ['yo', 'ig', 'ha', 'en'];
+
+const SAMPLE_RATE = 16000;
+const SYLLABLE_SECONDS = 0.2;
+const WORD_GAP_SECONDS = 0.08;
+const PADDING_SECONDS = 0.1;
+const FADE_SECONDS = 0.015;
+const PITCH: Record<Tone, number> = { high: 240, mid: 190, low: 150 };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-request-id, x-spitch-mock-fixture',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'Retry-After, X-Cache, Age, X-Request-Id',
+};
+
+interface Fixtures {
+  transcriptions: Record<string, Record<string, string[]>>;
+  diacritics: Record<string, string>;
+  translations: Array<{ source: string; target: string; text: string; translation: string }>;
+}
+
+interface FieldError {
+  field: string;
+  message: string;
+}
+
+class MockError extends Error {
+  status: number;
+  code: string;
+  details?: Record<string, unknown>;
+
+  constructor(status: number, code: string, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Lookup key that ignores tone marks, underdots, case, punctuation and spacing
+ */
+const plainKey = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^\p{L}\p{N}'’\s-]/gu, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const capitalizeLike = (template: string, word: string) =>
+  /^\p{Lu}/u.test(template) ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+
+// ---------------------------------------------------------------------------
+// Dictionaries
+// ---------------------------------------------------------------------------
+
+interface VocabularyEntry {
+  language: string;
+  word: string;
+  translation: string;
+}
+
+const loadVocabulary = (): VocabularyEntry[] => {
+  const entries: VocabularyEntry[] = [];
+  if (!fs.existsSync(CONTENT_DIR)) return entries;
+
+  for (const language of fs.readdirSync(CONTENT_DIR).sort()) {
+    const dir = path.join(CONTENT_DIR, language);
+    if (!fs.statSync(dir).isDirectory()) continue;
+
+    for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+      const course = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+      for (const lesson of course.lessons || []) {
+        for (const item of lesson.vocabulary || []) {
+          entries.push({ language, word: item.word, translation: item.translation });
+        }
+      }
+    }
+  }
+  return entries;
+};
+
+const fixtures: Fixtures = JSON.parse(fs.readFileSync(FIXTURES_FILE, 'utf8'));
+const vocabulary = loadVocabulary();
+
+// Plain spelling -> tone-marked spelling, for whole phrases and single words.
+// The first spelling seen wins, so answers don't depend on load order.
+const markedPhrases = new Map<string, string>();
+const markedWords = new Map<string, string>();
+
+// Fixture entries may be keyed by a looser spelling ("e kaaro") than the
+// marked form gives, so that spelling is matched too, word for word.
+const addMarked = (marked: string, spelling = marked) => {
+  [plainKey(marked), plainKey(spelling)].forEach(phraseKey => {
+    if (!markedPhrases.has(phraseKey)) markedPhrases.set(phraseKey, marked.trim());
+  });
+
+  const markedWordList = marked.match(/[\p{L}\p{M}]+/gu) || [];
+  const spellingWordList = spelling.match(/[\p{L}\p{M}]+/gu) || [];
+  markedWordList.forEach((word, i) => {
+    const keys = [plainKey(word)];
+    if (spellingWordList.length === markedWordList.length) keys.push(plainKey(spellingWordList[i]));
+    keys.forEach(wordKey => {
+      if (!markedWords.has(wordKey)) markedWords.set(wordKey, word.toLowerCase());
+    });
+  });
+};
+
+Object.entries(fixtures.diacritics).forEach(([spelling, marked]) => addMarked(marked, spelling));
+vocabulary.filter(entry => entry.language === 'yo').forEach(entry => addMarked(entry.word));
+
+// "source:target:plain text" -> translation
+const phrasebook = new Map<string, string>();
+const addTranslation = (source: string, target: string, text: string, translation: string) => {
+  const key = `${source}:${target}:${plainKey(text)}`;
+  if (!phrasebook.has(key)) phrasebook.set(key, translation);
+};
+
+fixtures.translations.forEach(entry => addTranslation(entry.source, entry.target, entry.text, entry.translation));
+vocabulary.forEach(entry => {
+  addTranslation(entry.language, 'en', entry.word, entry.translation);
+  addTranslation('en', entry.language, entry.translation, entry.word);
+});
+
+// ---------------------------------------------------------------------------
+// Speech
+// ---------------------------------------------------------------------------
+
+/**
+ * The tone of each syllable in a word. Hausa and English aren't written
+ * with tones, so each vowel group is read as mid.
+ */
+const wordTones = (word: string, language: string): Tone[] => {
+  if (language === 'yo' || language === 'ig') {
+    return extractToneUnits(word, language).map(unit => unit.tone);
+  }
+  const groups = plainKey(word).match(/[aeiouy]+/g) || [];
+  return groups.map(() => 'mid' as const);
+};
+
+/**
+ * 16 kHz mono 16-bit WAV with the source text in a LIST/INFO comment
+ * chunk, so /v1/transcriptions can hear it back exactly
+ */
+const synthesizeSpeech = (text: string, language: string): Buffer => {
+  const words = text.match(/[\p{L}\p{M}'’-]+/gu) || [];
+  const samples: number[] = [];
+  const silence = (seconds: number) => {
+    for (let i = 0; i < Math.round(seconds * SAMPLE_RATE); i++) samples.push(0);
+  };
+
+  silence(PADDING_SECONDS);
+  words.forEach((word, index) => {
+    if (index > 0) silence(WORD_GAP_SECONDS);
+    const tones = wordTones(word, language);
+    for (const tone of tones.length > 0 ? tones : ['mid' as const]) {
+      const count = Math.round(SYLLABLE_SECONDS * SAMPLE_RATE);
+      const fade = Math.round(FADE_SECONDS * SAMPLE_RATE);
+      for (let i = 0; i < count; i++) {
+        const envelope = Math.min(1, i / fade, (count - i) / fade);
+        samples.push(Math.round(Math.sin((2 * Math.PI * PITCH[tone] * i) / SAMPLE_RATE) * envelope * 12000));
+      }
+    }
+  });
+  silence(PADDING_SECONDS);
+
+  const comment = Buffer.from(`${text}\0`, 'utf8');
+  const commentSize = comment.length + (comment.length % 2);
+  const listSize = 4 + 8 + commentSize;
+  const dataSize = samples.length * 2;
+
+  const wav = Buffer.alloc(44 + dataSize + 8 + listSize);
+  wav.write('RIFF', 0, 'ascii');
+  wav.writeUInt32LE(wav.length - 8, 4);
+  wav.write('WAVE', 8, 'ascii');
+  wav.write('fmt ', 12, 'ascii');
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(SAMPLE_RATE, 24);
+  wav.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write('data', 36, 'ascii');
+  wav.writeUInt32LE(dataSize, 40);
+  samples.forEach((sample, i) => wav.writeInt16LE(sample, 44 + i * 2));
+
+  const list = 44 + dataSize;
+  wav.write('LIST', list, 'ascii');
+  wav.writeUInt32LE(listSize, list + 4);
+  wav.write('INFO', list + 8, 'ascii');
+  wav.write('ICMT', list + 12, 'ascii');
+  wav.writeUInt32LE(commentSize, list + 16);
+  comment.copy(wav, list + 20);
+  return wav;
+};
+
+interface WavInfo {
+  seconds: number;
+  comment: string | null;
+}
+
+const readWav = (audio: Buffer): WavInfo | null => {
+  if (audio.length < 12 || audio.toString('ascii', 0, 4) !== 'RIFF' || audio.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+
+  let byteRate = 0;
+  let dataSize = 0;
+  let comment: string | null = null;
+
+  for (let offset = 12; offset + 8 <= audio.length;) {
+    const id = audio.toString('ascii', offset, offset + 4);
+    const size = audio.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && size >= 16) byteRate = audio.readUInt32LE(body + 8);
+    if (id === 'data') dataSize = Math.min(size, audio.length - body);
+    if (id === 'LIST' && audio.toString('ascii', body, body + 4) === 'INFO') {
+      for (let sub = body + 4; sub + 8 <= body + size;) {
+        const subSize = audio.readUInt32LE(sub + 4);
+        if (audio.toString('ascii', sub, sub + 4) === 'ICMT') {
+          comment = audio.toString('utf8', sub + 8, sub + 8 + subSize).replace(/\0+$/, '');
+        }
+        sub += 8 + subSize + (subSize % 2);
+      }
+    }
+    offset = body + size + (size % 2);
+  }
+
+  return { seconds: byteRate > 0 ? dataSize / byteRate : 0, comment };
+};
+
+// ---------------------------------------------------------------------------
+// Transcriptions
+// ---------------------------------------------------------------------------
+
+// Next line to hand out, per fixture and language
+const fixturePositions = new Map<string, number>();
+
+const nextScriptedLine = (fixture: string, language: string): string => {
+  const script = fixtures.transcriptions[fixture];
+  if (!script) {
+    throw new MockError(400, 'invalid_request', `Unknown fixture "${fixture}"`, {
+      fixtures: Object.keys(fixtures.transcriptions),
+    });
+  }
+
+  const lines = script[language] || [];
+  if (lines.length === 0) return '';
+
+  const key = `${fixture}:${language}`;
+  const position = fixturePositions.get(key) || 0;
+  fixturePositions.set(key, position + 1);
+  return lines[position % lines.length];
+};
+
+/**
+ * Spread the words evenly over the recording, as Spitch's word timestamps do
+ */
+const wordTimestamps = (text: string, seconds: number) => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const step = words.length > 0 ? (seconds || words.length * 0.5) / words.length : 0;
+  return words.map((word, i) => ({
+    text: word,
+    start: Number((i * step).toFixed(2)),
+    end: Number(((i + 1) * step).toFixed(2)),
+  }));
+};
+
+// ---------------------------------------------------------------------------
+// Diacritics and translation
+// ---------------------------------------------------------------------------
+
+const restoreToneMarks = (text: string): string => {
+  const phrase = markedPhrases.get(plainKey(text));
+  if (phrase) {
+    const leading = text.match(/^\s*/)?.[0] ?? '';
+    const trailing = text.match(/[\s\p{P}]*$/u)?.[0] ?? '';
+    return leading + capitalizeLike(text.trim(), phrase.replace(/[\p{P}]+$/u, '')) + trailing;
+  }
+
+  return text.replace(/[\p{L}\p{M}]+/gu, word => {
+    const marked = markedWords.get(plainKey(word));
+    return marked ? capitalizeLike(word, marked) : word;
+  });
+};
+
+const translate = (text: string, source: string, target: string): string => {
+  const known = phrasebook.get(`${source}:${target}:${plainKey(text)}`);
+  // Unknown text is echoed back tagged, so it's obvious in the UI
+  return known ? capitalizeLike(text.trim(), known) : `[${target}] ${text}`;
+};
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+const readBody = (req: http.IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const parseJsonBody = (body: Buffer, required: string[]): Record<string, string> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new MockError(400, 'invalid_request', 'The request is invalid', {
+      fields: [{ field: 'body', message: 'Must be valid JSON' }],
+    });
+  }
+
+  const fields = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>;
+  const errors: FieldError[] = required
+    .filter(field => typeof fields[field] !== 'string' || (fields[field] as string).trim() === '')
+    .map(field => ({ field, message: 'Required, and must be non-empty text' }));
+  if (typeof fields.language === 'string' && !LANGUAGES.includes(fields.language)) {
+    errors.push({ field: 'language', message: `Must be one of: ${LANGUAGES.join(', ')}` });
+  }
+  if (errors.length > 0) {
+    throw new MockError(400, 'invalid_request', 'The request is invalid', { fields: errors });
+  }
+  return fields as Record<string, string>;
+};
+
+const handleEndpoint = async (
+  endpoint: string,
+  req: http.IncomingMessage,
+  url: URL,
+  requestId: string
+): Promise<{ contentType: string; body: Buffer | string }> => {
+  const body = await readBody(req);
+  const json = (value: unknown) => ({ contentType: 'application/json', body: JSON.stringify(value) });
+
+  switch (endpoint) {
+    case '/v1/speech': {
+      const { text, language } = parseJsonBody(body, ['text', 'language']);
+      return { contentType: 'audio/wav', body: synthesizeSpeech(text, language) };
+    }
+
+    case '/v1/transcriptions': {
+      const form = await new Request('http://spitch-mock/', {
+        method: 'POST',
+        headers: { 'content-type': req.headers['content-type'] || '' },
+        body,
+      }).formData().catch(() => {
+        throw new MockError(400, 'invalid_request', 'The request is invalid', {
+          fields: [{ field: 'Content-Type', message: 'Must be multipart/form-data' }],
+        });
+      });
+
+      const content = form.get('content');
+      const language = String(form.get('language') || '');
+      if (!(content instanceof Blob) || !LANGUAGES.includes(language)) {
+        throw new MockError(400, 'invalid_request', 'The request is invalid', {
+          fields: [
+            ...(content instanceof Blob ? [] : [{ field: 'content', message: 'Required, and must be an audio file' }]),
+            ...(LANGUAGES.includes(language) ? [] : [{ field: 'language', message: `Must be one of: ${LANGUAGES.join(', ')}` }]),
+          ],
+        });
+      }
+
+      const wav = readWav(Buffer.from(await content.arrayBuffer()));
+      const fixture = String(req.headers['x-spitch-mock-fixture'] || url.searchParams.get('fixture') || DEFAULT_FIXTURE);
+      const text = wav?.comment ?? nextScriptedLine(fixture, language);
+      return json({ request_id: requestId, text, timestamps: wordTimestamps(text, wav?.seconds ?? 0) });
+    }
+
+    case '/v1/diacritics': {
+      const { text } = parseJsonBody(body, ['text']);
+      return json({ request_id: requestId, text: restoreToneMarks(text) });
+    }
+
+    case '/v1/translate': {
+      const { text, source, target } = parseJsonBody(body, ['text', 'source', 'target']);
+      if (source !== 'en' && target !== 'en') {
+        throw new MockError(400, 'invalid_request', 'The request is invalid', {
+          fields: [{ field: 'target', message: 'Spitch translates to or from English only' }],
+        });
+      }
+      return json({ request_id: requestId, text: translate(text, source, target) });
+    }
+  }
+
+  throw new MockError(400, 'invalid_endpoint', `Endpoint must be one of: ${ENDPOINTS.join(', ')}`);
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const incoming = String(req.headers['x-request-id'] || '');
+  const requestId = /^[A-Za-z0-9-]{8,64}$/.test(incoming) ? incoming : randomUUID();
+  const headers = { ...corsHeaders, 'X-Request-Id': requestId };
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(200, headers).end('ok');
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    res.writeHead(200, { ...headers, 'Content-Type': 'application/json' }).end(JSON.stringify({
+      status: 'ok',
+      fixtures: Object.keys(fixtures.transcriptions),
+      diacritics: markedPhrases.size,
+      translations: phrasebook.size,
+    }));
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/reset') {
+    fixturePositions.clear();
+    res.writeHead(204, headers).end();
+    return;
+  }
+
+  // Called as the proxy (/?endpoint=/v1/...) or as Spitch itself (/v1/...)
+  const endpoint = url.searchParams.get('endpoint') || url.pathname;
+
+  try {
+    if (req.method !== 'POST' || !ENDPOINTS.includes(endpoint)) {
+      throw new MockError(400, 'invalid_endpoint', `Endpoint must be one of: ${ENDPOINTS.join(', ')}`);
+    }
+
+    const result = await handleEndpoint(endpoint, req, url, requestId);
+    const body = typeof result.body === 'string' ? Buffer.from(result.body, 'utf8') : result.body;
+    res.writeHead(200, {
+      ...headers,
+      'Content-Type': result.contentType,
+      'Content-Length': body.length.toString(),
+      'X-Cache': 'BYPASS',
+    }).end(body);
+    console.log(`✅ ${endpoint} 200 (${body.length} bytes)`);
+  } catch (caught) {
+    const error = caught instanceof MockError
+      ? caught
+      : new MockError(500, 'internal_error', 'Something went wrong. Please try again.');
+    if (!(caught instanceof MockError)) console.error('❌ Unhandled error:', caught);
+
+    res.writeHead(error.status, { ...headers, 'Content-Type': 'application/json' }).end(JSON.stringify({
+      code: error.code,
+      message: error.message,
+      requestId,
+      ...(error.details ? { details: error.details } : {}),
+    }));
+    console.log(`⚠️  ${endpoint} ${error.status} ${error.code}: ${error.message}`);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🎙️  Spitch mock listening on http://localhost:${PORT}`);
+  console.log(`   Fixture: ${DEFAULT_FIXTURE} (${Object.keys(fixtures.transcriptions).join(', ')})`);
+  console.log(`   Dictionary: ${markedPhrases.size} phrases, ${markedWords.size} words; phrasebook: ${phrasebook.size} entries`);
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
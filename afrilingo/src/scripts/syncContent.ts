@@ -0,0 +1,281 @@
+/**
+ * Course content sync
+ * Validates the JSON course files under content/ and brings the
+ * database in line with them: lessons, vocabulary and exercises are
+ * inserted, updated or deleted by their stable content IDs, so running
+ * it again changes nothing.
+ *
+ *   npx tsx src/scripts/syncContent.ts --check            # validate only
+ *   npx tsx src/scripts/syncContent.ts                    # validate and print the plan
+ *   npx tsx src/scripts/syncContent.ts --apply            # ...and apply it in one transaction
+ *
+ * --local targets the stack started by `supabase start`, using the API
+ * port from supabase/config.toml. --prune-progress allows deleting
+ * lessons that learners have progress on, along with that progress.
+ *
+ * Paths may be files or directories and default to content/. Each file
+ * lives in a folder named after its language (content/yo/01-*.json).
+ * Problems are reported as file:line:column so editors can jump to them.
+ * Languages and achievements are seeded by supabase/seed.sql.
+ */
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { execFileSync } from 'child_process';
+import { parseJsonWithLocations, locate, JsonSyntaxError, type SourceLocation } from '../utils/jsonSource';
+import { validateCourseFile, validateCourseSet, type CourseFile } from '../utils/courseFormat';
+import { planContentSync, summarizePlan, type ContentSnapshot, type SyncPlan } from '../utils/contentSync';
+import type { Exercise, Lesson, Vocabulary } from '../services/lessonService';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const projectRoot = path.resolve(__dirname, '../..');
+
+const SCHEMA_FILE = 'course.schema.json';
+
+interface LoadedFile {
+  path: string;
+  course: CourseFile;
+  locations: Map<string, SourceLocation>;
+}
+
+const collectFiles = (target: string): string[] => {
+  if (!fs.existsSync(target)) {
+    console.error(`❌ No such file or directory: ${target}`);
+    process.exit(1);
+  }
+  if (fs.statSync(target).isFile()) return [target];
+
+  return fs.readdirSync(target, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const full = path.join(target, entry.name);
+      if (entry.isDirectory()) return collectFiles(full);
+      return entry.name.endsWith('.json') && entry.name !== SCHEMA_FILE ? [full] : [];
+    });
+};
+
+const report = (file: string, location: SourceLocation, message: string) => {
+  console.error(`${path.relative(process.cwd(), file)}:${location.line}:${location.column} error ${message}`);
+};
+
+/**
+ * Parse and validate every file, printing each problem found.
+ * Returns the files only if all of them are valid.
+ */
+const loadCourse = (files: string[]): LoadedFile[] | null => {
+  const loaded: LoadedFile[] = [];
+  let errorCount = 0;
+
+  files.forEach(file => {
+    try {
+      const { value, locations } = parseJsonWithLocations(fs.readFileSync(file, 'utf8'));
+      const issues = validateCourseFile(value, path.basename(path.dirname(file)));
+      issues.forEach(issue => report(file, locate(locations, issue.pointer), issue.message));
+      errorCount += issues.length;
+      if (issues.length === 0) loaded.push({ path: file, course: value as CourseFile, locations });
+    } catch (error) {
+      if (!(error instanceof JsonSyntaxError)) throw error;
+      report(file, error.location, error.message);
+      errorCount++;
+    }
+  });
+
+  const setIssues = validateCourseSet(loaded);
+  setIssues.forEach(issue => {
+    const file = loaded.find(f => f.path === issue.path)!;
+    report(file.path, locate(file.locations, issue.pointer), issue.message);
+  });
+  errorCount += setIssues.length;
+
+  if (errorCount > 0) {
+    console.error(`\n❌ ${errorCount} problem${errorCount === 1 ? '' : 's'} in ${files.length} file(s)`);
+    return null;
+  }
+
+  console.log(`✅ ${files.length} course file(s) are valid`);
+  return loaded;
+};
+
+/**
+ * The project's API URL and a service role key, either from the
+ * environment or from a local stack started with `supabase start`
+ */
+const connect = (local: boolean) => {
+  const envFile = path.join(projectRoot, '.env.local');
+  if (!local && fs.existsSync(envFile)) process.loadEnvFile(envFile);
+
+  let supabaseUrl = process.env.VITE_SUPABASE_URL;
+  let serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (local) {
+    const config = fs.readFileSync(path.join(projectRoot, 'supabase/config.toml'), 'utf8');
+    const apiSection = config.split(/^\[/m).find(section => section.startsWith('api]')) || '';
+    const port = /^port\s*=\s*(\d+)/m.exec(apiSection)?.[1] || '54321';
+    supabaseUrl = `http://127.0.0.1:${port}`;
+
+    if (!serviceKey) {
+      try {
+        const status = execFileSync('supabase', ['status', '-o', 'env'], { cwd: projectRoot, encoding: 'utf8' });
+        serviceKey = /^SERVICE_ROLE_KEY="?([^"\n]+)"?$/m.exec(status)?.[1];
+      } catch {
+        console.error('❌ Could not read the local service role key. Is the stack running? Try `supabase start`.');
+        process.exit(1);
+      }
+    }
+  }
+
+  if (!supabaseUrl || !serviceKey) {
+    console.error('❌ Missing Supabase environment variables!');
+    console.error('Set VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or pass --local');
+    process.exit(1);
+  }
+
+  console.log(`🔗 Connecting to ${supabaseUrl}`);
+  return createClient(supabaseUrl, serviceKey);
+};
+
+const PAGE_SIZE = 1000;
+
+// Read every row of a query, a page at a time
+const fetchAll = async <T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const loadSnapshot = async (supabase: SupabaseClient, courses: CourseFile[]): Promise<ContentSnapshot> => {
+  const { data: languages, error } = await supabase.from('languages').select('id, code');
+  if (error || !languages) throw error || new Error('No languages');
+
+  const missing = courses.filter(course => !languages.some(l => l.code === course.language));
+  if (missing.length > 0) {
+    throw new Error(`Languages missing from the database: ${[...new Set(missing.map(c => c.language))].join(', ')}`);
+  }
+
+  const languageIds = languages.filter(l => courses.some(c => c.language === l.code)).map(l => l.id);
+  const lessons = await fetchAll<Lesson>((from, to) =>
+    supabase.from('lessons').select('*').in('language_id', languageIds).order('id').range(from, to)
+  );
+  const lessonIds = lessons.map(lesson => lesson.id);
+  const [exercises, vocabulary] = await Promise.all([
+    fetchAll<Exercise>((from, to) =>
+      supabase.from('exercises').select('*').in('lesson_id', lessonIds).order('id').range(from, to)
+    ),
+    fetchAll<Vocabulary>((from, to) =>
+      supabase.from('vocabulary').select('*').in('lesson_id', lessonIds).order('id').range(from, to)
+    )
+  ]);
+
+  return { languages, lessons, exercises, vocabulary };
+};
+
+// user_progress rows that would be left pointing at deleted lessons
+const countOrphanedProgress = async (supabase: SupabaseClient, plan: SyncPlan) => {
+  const orphans: Array<{ label: string; count: number }> = [];
+  const deletions = plan.changes.filter(change => change.table === 'lessons' && change.action === 'delete');
+  for (const [index, change] of deletions.entries()) {
+    const lessonId = plan.payload.delete.lessons[index];
+    const { count, error } = await supabase
+      .from('user_progress')
+      .select('id', { count: 'exact', head: true })
+      .eq('lesson_id', lessonId);
+    if (error) throw error;
+    orphans.push({ label: change.label, count: count || 0 });
+  }
+  return orphans.filter(orphan => orphan.count > 0);
+};
+
+const SYMBOLS = { insert: '+', update: '~', delete: '-' };
+
+const printPlan = (plan: SyncPlan, orphans: Array<{ label: string; count: number }>) => {
+  console.log('\n📋 Sync plan');
+  summarizePlan(plan).forEach(({ table, inserts, updates, deletes }) => {
+    console.log(`   ${table.padEnd(11)} +${inserts}  ~${updates}  -${deletes}`);
+  });
+
+  if (plan.changes.length === 0) {
+    console.log('\n✅ Database already matches the course files');
+    return;
+  }
+
+  console.log('');
+  plan.changes.forEach(change => {
+    const id = change.contentId || '(untracked)';
+    const detail = change.adopted
+      ? ' adopting existing row'
+      : change.fields?.length ? ` (${change.fields.join(', ')})` : '';
+    console.log(`   ${SYMBOLS[change.action]} ${change.table.padEnd(11)}${id}  "${change.label}"${detail}`);
+  });
+
+  if (orphans.length > 0) {
+    const total = orphans.reduce((sum, orphan) => sum + orphan.count, 0);
+    console.log(`\n⚠️  ${total} user_progress row(s) belong to lessons that would be deleted:`);
+    orphans.forEach(orphan => console.log(`   "${orphan.label}": ${orphan.count}`));
+  }
+};
+
+/**
+ * Plan the sync and, with --apply, run it in one transaction
+ */
+const syncContent = async (files: LoadedFile[], options: { apply: boolean; local: boolean; pruneProgress: boolean }) => {
+  const supabase = connect(options.local);
+  const courses = files.map(file => file.course);
+
+  const plan = planContentSync(courses, await loadSnapshot(supabase, courses));
+  const orphans = await countOrphanedProgress(supabase, plan);
+  printPlan(plan, orphans);
+
+  if (plan.changes.length === 0) return;
+
+  if (!options.apply) {
+    console.log('\n💡 Dry run: nothing was changed. Run again with --apply to make these changes.');
+    return;
+  }
+
+  if (orphans.length > 0 && !options.pruneProgress) {
+    console.error('\n❌ Refusing to delete lessons that learners have progress on. Pass --prune-progress to delete it too.');
+    process.exit(1);
+  }
+
+  plan.payload.prune_progress = options.pruneProgress;
+  const { data, error } = await supabase.rpc('apply_content_sync', { plan: plan.payload });
+  if (error) {
+    console.error('❌ Sync failed, nothing was changed:', error.message);
+    process.exit(1);
+  }
+
+  console.log('\n🎉 Sync applied:', data);
+};
+
+const args = process.argv.slice(2);
+const checkOnly = args.includes('--check');
+const targets = args.filter(arg => !arg.startsWith('--'));
+const files = (targets.length > 0 ? targets : [path.join(projectRoot, 'content')])
+  .flatMap(target => collectFiles(path.resolve(target)));
+
+if (files.length === 0) {
+  console.error('❌ No course files found');
+  process.exit(1);
+}
+
+const loaded = loadCourse(files);
+if (!loaded) process.exit(1);
+
+if (!checkOnly) {
+  syncContent(loaded!, {
+    apply: args.includes('--apply'),
+    local: args.includes('--local'),
+    pruneProgress: args.includes('--prune-progress')
+  }).catch(error => {
+    console.error('❌ Fatal error:', error);
+    process.exit(1);
+  });
+}
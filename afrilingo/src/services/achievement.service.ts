@@ -0,0 +1,107 @@
+/**
+ * Achievement Service
+ * Achievements are data: each row in the achievements table carries
+ * its unlock criteria, rewards and icon. The server evaluates the
+ * criteria after every reward event and records unlocks in
+ * user_achievements; this service reads them.
+ */
+
+import { supabase } from '../lib/supabase';
+
+export type AchievementMetric =
+  | 'xp'
+  | 'streak'
+  | 'longest_streak'
+  | 'lessons_completed'
+  | 'perfect_scores'
+  | 'languages_started'
+  | 'languages_with_completed_lesson'
+  | 'cultural_items';
+
+export type AchievementCriteria =
+  | { metric: AchievementMetric; gte: number; language?: string }
+  | { all: AchievementCriteria[] }
+  | { any: AchievementCriteria[] };
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  xp_reward: number;
+  cowrie_reward: number;
+  criteria: AchievementCriteria;
+}
+
+export interface UserAchievement {
+  achievementId: string;
+  unlockedAt: string;
+}
+
+class AchievementService {
+  private definitions: Promise<Achievement[]> | null = null;
+
+  /**
+   * All achievement definitions (cached for the session)
+   */
+  getAchievements(): Promise<Achievement[]> {
+    if (!this.definitions) {
+      this.definitions = (async () => {
+        const { data, error } = await supabase
+          .from('achievements')
+          .select('id, name, description, icon, xp_reward, cowrie_reward, criteria')
+          .order('xp_reward');
+
+        if (error) {
+          this.definitions = null;
+          throw error;
+        }
+        return data || [];
+      })();
+    }
+    return this.definitions;
+  }
+
+  /**
+   * A learner's unlocks, most recent first
+   */
+  async getUserAchievements(userId: string): Promise<UserAchievement[]> {
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .select('achievement_id, unlocked_at')
+      .eq('user_id', userId)
+      .order('unlocked_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      achievementId: row.achievement_id,
+      unlockedAt: row.unlocked_at
+    }));
+  }
+
+  /**
+   * Ask the server to evaluate criteria now. Resolves to the IDs of
+   * achievements this call unlocked.
+   */
+  async evaluate(): Promise<string[]> {
+    const { data, error } = await supabase.rpc('check_achievements');
+    if (error) throw error;
+    return (data || []) as string[];
+  }
+
+  /**
+   * Record that a piece of cultural content was explored, which may
+   * unlock achievements. Resolves to any newly unlocked IDs.
+   */
+  async recordCulturalExploration(itemKey: string, language: string): Promise<string[]> {
+    const { data, error } = await supabase.rpc('record_cultural_exploration', {
+      p_item_key: itemKey,
+      p_language: language
+    });
+    if (error) throw error;
+    return (data || []) as string[];
+  }
+}
+
+export const achievementService = new AchievementService();
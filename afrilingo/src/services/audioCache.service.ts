@@ -0,0 +1,343 @@
+/**
+ * Audio Cache Service
+ * Persists generated speech in IndexedDB so greetings and vocabulary
+ * don't have to be downloaded again after every page reload.
+ * Entries are evicted least-recently-used once the store grows past
+ * its size budget. Pinned entries (audio belonging to an offline lesson
+ * pack) are never evicted and don't count towards that budget.
+ * Each entry's size and pin also live in a small metadata store, so
+ * stats and eviction never have to load the audio itself.
+ */
+
+import { STORAGE_KEYS } from '../config/constants';
+
+const DB_VERSION = 2;
+const STORE_NAME = 'audio';
+const META_STORE_NAME = 'meta';
+const LAST_ACCESSED_INDEX = 'lastAccessed';
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024; // 50MB
+
+export interface AudioCacheKey {
+  language: string;
+  voice: string;
+  model: string;
+  text: string;
+}
+
+interface AudioCacheEntry extends AudioCacheKey {
+  key: string;
+  blob: Blob;
+  size: number;
+  pinned: boolean;
+  createdAt: number;
+  lastAccessed: number;
+}
+
+type AudioCacheMeta = Pick<AudioCacheEntry, 'key' | 'size' | 'pinned'>;
+
+const toMeta = ({ key, size, pinned }: AudioCacheEntry): AudioCacheMeta => ({ key, size, pinned });
+
+export interface AudioCacheStats {
+  entries: number;
+  totalBytes: number;
+  pinnedEntries: number;
+  pinnedBytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+}
+
+// Wrap an IDBRequest in a promise
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+class AudioCacheService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private maxBytes: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(maxBytes = DEFAULT_MAX_BYTES) {
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Normalise text so trivially different spellings share one entry
+   */
+  normalizeText(text: string): string {
+    return text.normalize('NFC').trim().replace(/\s+/g, ' ');
+  }
+
+  private buildKey({ language, voice, model, text }: AudioCacheKey): string {
+    return [language, voice, model, this.normalizeText(text)].join('|');
+  }
+
+  /**
+   * Open the database once; resolves to null where IndexedDB is
+   * unavailable (e.g. some private browsing modes)
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(STORAGE_KEYS.AUDIO_CACHE, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex(LAST_ACCESSED_INDEX, 'lastAccessed');
+        }
+        if (!db.objectStoreNames.contains(META_STORE_NAME)) {
+          const meta = db.createObjectStore(META_STORE_NAME, { keyPath: 'key' });
+          // Entries saved before the metadata store existed
+          const cursorRequest = request.transaction!.objectStore(STORE_NAME).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            meta.put(toMeta(cursor.value as AudioCacheEntry));
+            cursor.continue();
+          };
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Audio cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Look up cached audio, refreshing its position in the LRU order
+   */
+  async get(cacheKey: AudioCacheKey): Promise<Blob | null> {
+    try {
+      const db = await this.openDatabase();
+      if (!db) return null;
+
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const entry: AudioCacheEntry | undefined = await promisify(
+        store.get(this.buildKey(cacheKey))
+      );
+
+      if (!entry) {
+        this.misses++;
+        return null;
+      }
+
+      store.put({ ...entry, lastAccessed: Date.now() });
+      await transactionDone(transaction);
+
+      this.hits++;
+      return entry.blob;
+    } catch (error) {
+      console.warn('Audio cache read error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store audio and evict the least recently used entries if the
+   * cache is now over budget
+   */
+  async put(cacheKey: AudioCacheKey, blob: Blob): Promise<void> {
+    if (blob.size > this.maxBytes) return;
+
+    try {
+      const db = await this.openDatabase();
+      if (!db) return;
+
+      const now = Date.now();
+      const key = this.buildKey(cacheKey);
+
+      const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+      const meta = transaction.objectStore(META_STORE_NAME);
+      const existing: AudioCacheMeta | undefined = await promisify(meta.get(key));
+      const entry: AudioCacheEntry = {
+        ...cacheKey,
+        text: this.normalizeText(cacheKey.text),
+        key,
+        blob,
+        size: blob.size,
+        pinned: existing?.pinned ?? false,
+        createdAt: now,
+        lastAccessed: now
+      };
+      transaction.objectStore(STORE_NAME).put(entry);
+      meta.put(toMeta(entry));
+      await transactionDone(transaction);
+
+      await this.evictIfNeeded(db);
+    } catch (error) {
+      console.warn('Audio cache write error:', error);
+    }
+  }
+
+  /**
+   * Mark entries as belonging to an offline pack (or release them)
+   */
+  async setPinned(cacheKeys: AudioCacheKey[], pinned: boolean): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      if (!db) return;
+
+      const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const meta = transaction.objectStore(META_STORE_NAME);
+
+      for (const cacheKey of cacheKeys) {
+        const key = this.buildKey(cacheKey);
+        const entry: AudioCacheMeta | undefined = await promisify(meta.get(key));
+        if (entry && entry.pinned !== pinned) {
+          meta.put({ ...entry, pinned });
+          const stored: AudioCacheEntry | undefined = await promisify(store.get(key));
+          if (stored) store.put({ ...stored, pinned });
+        }
+      }
+
+      await transactionDone(transaction);
+
+      if (!pinned) {
+        await this.evictIfNeeded(db);
+      }
+    } catch (error) {
+      console.warn('Audio cache pin error:', error);
+    }
+  }
+
+  /**
+   * Whether every given entry is stored on this device
+   */
+  async hasAll(cacheKeys: AudioCacheKey[]): Promise<boolean> {
+    try {
+      const db = await this.openDatabase();
+      if (!db) return false;
+
+      const transaction = db.transaction(META_STORE_NAME, 'readonly');
+      const store = transaction.objectStore(META_STORE_NAME);
+      const counts = await Promise.all(
+        cacheKeys.map(cacheKey => promisify(store.count(this.buildKey(cacheKey))))
+      );
+      return counts.every(count => count > 0);
+    } catch (error) {
+      console.warn('Audio cache lookup error:', error);
+      return false;
+    }
+  }
+
+  private async evictIfNeeded(db: IDBDatabase): Promise<void> {
+    const { totalBytes, pinnedBytes } = await this.getStats();
+    let excess = totalBytes - pinnedBytes - this.maxBytes;
+    if (excess <= 0) return;
+
+    const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const meta = transaction.objectStore(META_STORE_NAME);
+
+    // Walk keys oldest first, reading each entry's metadata, not its audio
+    let cursor = await promisify(store.index(LAST_ACCESSED_INDEX).openKeyCursor());
+    while (cursor && excess > 0) {
+      const key = cursor.primaryKey as string;
+      const entry: AudioCacheMeta | undefined = await promisify(meta.get(key));
+      if (!entry?.pinned) {
+        excess -= entry?.size ?? 0;
+        store.delete(key);
+        meta.delete(key);
+      }
+      cursor.continue();
+      cursor = await promisify(cursor.request as IDBRequest<IDBCursor | null>);
+    }
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Entry count, stored size and this session's hit/miss counts
+   */
+  async getStats(): Promise<AudioCacheStats> {
+    const stats: AudioCacheStats = {
+      entries: 0,
+      totalBytes: 0,
+      pinnedEntries: 0,
+      pinnedBytes: 0,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses
+    };
+
+    try {
+      const db = await this.openDatabase();
+      if (!db) return stats;
+
+      const transaction = db.transaction(META_STORE_NAME, 'readonly');
+      const entries: AudioCacheMeta[] = await promisify(
+        transaction.objectStore(META_STORE_NAME).getAll()
+      );
+
+      stats.entries = entries.length;
+      stats.totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+
+      const pinned = entries.filter(entry => entry.pinned);
+      stats.pinnedEntries = pinned.length;
+      stats.pinnedBytes = pinned.reduce((total, entry) => total + entry.size, 0);
+    } catch (error) {
+      console.warn('Audio cache stats error:', error);
+    }
+
+    return stats;
+  }
+
+  /**
+   * Remove downloaded audio, keeping anything pinned by an offline pack
+   */
+  async clear(): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      if (!db) return;
+
+      const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const cursorRequest = transaction.objectStore(META_STORE_NAME).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const entry = cursor.value as AudioCacheMeta;
+        if (!entry.pinned) {
+          store.delete(entry.key);
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      await transactionDone(transaction);
+
+      this.hits = 0;
+      this.misses = 0;
+    } catch (error) {
+      console.warn('Audio cache clear error:', error);
+    }
+  }
+}
+
+export const audioCache = new AudioCacheService();
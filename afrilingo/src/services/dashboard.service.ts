@@ -0,0 +1,137 @@
+/**
+ * Dashboard Service
+ * Read-only aggregates of a learner's progress for the dashboard:
+ * XP per day, progress per skill and their latest exercise attempts.
+ */
+
+import { supabase } from '../lib/supabase';
+import { streakService, addDays } from './streak.service';
+import type { Lesson } from './lessonService';
+
+export type Skill = Lesson['lesson_type'];
+
+export const SKILLS: Skill[] = ['vocabulary', 'grammar', 'pronunciation', 'conversation', 'culture'];
+
+export interface DailyXP {
+  date: string; // YYYY-MM-DD in the learner's timezone
+  xp: number;
+}
+
+export interface SkillProgress {
+  skill: Skill;
+  lessonsCompleted: number;
+  totalLessons: number;
+  averageScore: number;
+}
+
+export interface ActivityItem {
+  id: string;
+  question: string;
+  exerciseType: string;
+  isCorrect: boolean;
+  lessonTitle: string;
+  languageCode: string;
+  createdAt: string;
+}
+
+// Columns selected by getRecentActivity
+interface ActivityRow {
+  id: string;
+  is_correct: boolean;
+  created_at: string;
+  exercises: {
+    question: string;
+    exercise_type: string;
+    lessons: {
+      title: string;
+      languages: { code: string };
+    };
+  };
+}
+
+class DashboardService {
+  /**
+   * XP earned on each of the last seven local days, oldest first
+   */
+  async getWeeklyXP(userId: string): Promise<DailyXP[]> {
+    const { today } = await streakService.getStreak();
+    const from = addDays(today, -6);
+    const history = await streakService.getActivityHistory(userId, from);
+    const xpByDate = new Map(history.map(day => [day.date, day.xp]));
+
+    return Array.from({ length: 7 }, (_, i) => {
+      const date = addDays(from, i);
+      return { date, xp: xpByDate.get(date) || 0 };
+    });
+  }
+
+  /**
+   * Lesson completion and average score per lesson type
+   */
+  async getSkillBreakdown(userId: string): Promise<SkillProgress[]> {
+    const [{ data: lessons, error: lessonsError }, { data: progress, error: progressError }] = await Promise.all([
+      supabase.from('lessons').select('id, lesson_type'),
+      supabase
+        .from('user_progress')
+        .select('lesson_id, score')
+        .eq('user_id', userId)
+        .eq('completed', true)
+    ]);
+
+    if (lessonsError) throw lessonsError;
+    if (progressError) throw progressError;
+
+    const lessonTypes = new Map<string, Skill>((lessons || []).map(l => [l.id, l.lesson_type]));
+
+    return SKILLS.map(skill => {
+      const completed = (progress || []).filter(p => lessonTypes.get(p.lesson_id) === skill);
+      const totalScore = completed.reduce((sum, p) => sum + (p.score || 0), 0);
+
+      return {
+        skill,
+        lessonsCompleted: completed.length,
+        totalLessons: (lessons || []).filter(l => l.lesson_type === skill).length,
+        averageScore: completed.length > 0 ? Math.round(totalScore / completed.length) : 0
+      };
+    });
+  }
+
+  /**
+   * Most recent exercise attempts, newest first
+   */
+  async getRecentActivity(userId: string, limit = 8): Promise<ActivityItem[]> {
+    const { data, error } = await supabase
+      .from('exercise_attempts')
+      .select(`
+        id,
+        is_correct,
+        created_at,
+        exercises!inner(
+          question,
+          exercise_type,
+          lessons!inner(
+            title,
+            languages!inner(code)
+          )
+        )
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+      .overrideTypes<ActivityRow[], { merge: false }>();
+
+    if (error) throw error;
+
+    return (data || []).map(attempt => ({
+      id: attempt.id,
+      question: attempt.exercises.question,
+      exerciseType: attempt.exercises.exercise_type,
+      isCorrect: attempt.is_correct,
+      lessonTitle: attempt.exercises.lessons.title,
+      languageCode: attempt.exercises.lessons.languages.code,
+      createdAt: attempt.created_at
+    }));
+  }
+}
+
+export const dashboardService = new DashboardService();
@@ -421,6 +421,39 @@ class GeminiService {
     return langResponses.default;
   }
 
+  // Used only for language pairs Spitch can't translate directly
+  async translate(
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string
+  ): Promise<string> {
+    const generateFn = async () => {
+      const prompt = `
+        Translate this ${sourceLanguage} text into ${targetLanguage}:
+        "${text}"
+
+        Keep the meaning and register. Use correct tone marks and special letters.
+
+        Return ONLY this JSON:
+        {
+          "translation": "the ${targetLanguage} translation"
+        }
+
+        DO NOT include any text outside the JSON.
+      `;
+
+      const result = await this.model.generateContent(prompt);
+      const response = await result.response;
+      return this.parseJSONSafely(response.text());
+    };
+
+    const parsed = await this.retryWithBackoff(generateFn);
+    if (parsed && typeof parsed.translation === 'string' && parsed.translation.trim()) {
+      return parsed.translation.trim();
+    }
+    throw new Error('Translation unavailable');
+  }
+
   async provideFeedback(
     userResponse: string,
     expectedResponse: string,
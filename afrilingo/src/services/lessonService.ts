@@ -1,4 +1,7 @@
 import { supabase } from '../lib/supabase';
+import { outboxService, isNetworkError, type OutboxEntry } from './outbox.service';
+import { rewardService } from './reward.service';
+import type { LessonSessionStats } from '../utils/lessonSession';
 
 export interface Language {
   id: string;
@@ -20,6 +23,7 @@ export interface Lesson {
   estimated_time: number;
   is_premium: boolean;
   cultural_context?: any;
+  content_id?: string | null; // Stable ID from the course files
   created_at: string;
 }
 
@@ -28,14 +32,29 @@ export interface Exercise {
   lesson_id: string;
   question: string;
   correct_answer: string;
+  accepted_answers?: string[]; // Other answers graded as correct
+  tone_strict?: boolean; // Whether missing tone marks fail the answer
   options?: string[];
-  exercise_type: 'multiple_choice' | 'translation' | 'pronunciation' | 'fill_blank' | 'conversation';
+  exercise_type:
+    | 'multiple_choice'
+    | 'translation'
+    | 'pronunciation'
+    | 'fill_blank'
+    | 'conversation'
+    | 'dictation'           // Type what you hear
+    | 'audio_match'         // Pick the written form of a clip
+    | 'tone_identification' // Pick the correctly tone-marked spelling
+    | 'word_order';         // Arrange the words in options into a sentence
   explanation?: string;
   audio_url?: string;
   exercise_order: number;
   points: number;
+  content_id?: string | null;
 }
 
+// Exercises whose correct answer is played as speech
+export const LISTENING_EXERCISE_TYPES: Exercise['exercise_type'][] = ['dictation', 'audio_match', 'tone_identification'];
+
 // Updated to match actual database schema
 export interface UserProgress {
   id?: string;
@@ -47,6 +66,11 @@ export interface UserProgress {
   cowries_earned: number;
   completed_at?: string;
   started_at?: string;
+  time_spent_seconds?: number;
+  correct_answers?: number;
+  incorrect_answers?: number;
+  hints_used?: number;
+  retries?: number;
 }
 
 export interface ExerciseAttempt {
@@ -54,7 +78,8 @@ export interface ExerciseAttempt {
   user_id: string;
   exercise_id: string;
   response: any;
-  is_correct: boolean;
+  is_correct: boolean; // Set by the server's grading of response
+  credit?: number;     // 0-1, also from the server's grading
   pronunciation_score?: number;
   created_at?: string;
 }
@@ -67,10 +92,45 @@ export interface Vocabulary {
   pronunciation?: string;
   audio_url?: string;
   display_order: number;
+  content_id?: string | null;
   created_at: string;
 }
 
+interface SubmitExercisePayload {
+  userId: string;
+  exerciseId: string;
+  response: any;
+  isCorrect: boolean;
+  pronunciationScore?: number;
+}
+
+interface StartLessonPayload {
+  userId: string;
+  lessonId: string;
+  startedAt: string;
+}
+
+interface CompleteLessonPayload {
+  userId: string;
+  lessonId: string;
+  score: number;
+  completedAt: string;
+  stats?: LessonSessionStats;
+}
+
 class LessonService {
+  constructor() {
+    outboxService.registerHandler<SubmitExercisePayload>('submit_exercise', (entry) =>
+      this.applySubmitExercise(entry)
+    );
+    outboxService.registerHandler<StartLessonPayload>('start_lesson', (entry) =>
+      this.applyStartLesson(entry)
+    );
+    outboxService.registerHandler<CompleteLessonPayload>('complete_lesson', (entry) =>
+      this.applyCompleteLesson(entry)
+    );
+  }
+
   /**
    * Get all available languages
    */
@@ -256,6 +316,7 @@ class LessonService {
 
   /**
    * Submit exercise attempt
+   * Queued for later if Supabase can't be reached
    */
   async submitExercise(
     userId: string,
@@ -264,151 +325,201 @@ class LessonService {
     isCorrect: boolean,
     pronunciationScore?: number
   ): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from('exercise_attempts')
-        .insert({
-          user_id: userId,
-          exercise_id: exerciseId,
-          response,
-          is_correct: isCorrect,
-          pronunciation_score: pronunciationScore
-        });
-
-      if (error) {
-        console.error('Error submitting exercise:', error);
-        return false;
-      }
-
-      return true;
-    } catch (error) {
-      console.error('Submit exercise error:', error);
-      return false;
-    }
+    const entry = outboxService.createEntry<SubmitExercisePayload>('submit_exercise', {
+      userId,
+      exerciseId,
+      response,
+      isCorrect,
+      pronunciationScore
+    });
+    return this.applyOrQueue(entry, (e) => this.applySubmitExercise(e));
   }
 
   /**
    * Start a lesson (record start time)
+   * Queued for later if Supabase can't be reached
    */
   async startLesson(userId: string, lessonId: string): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from('user_progress')
-        .insert({
-          user_id: userId,
-          lesson_id: lessonId,
-          completed: false,
-          score: 0,
-          xp_earned: 0,
-          cowries_earned: 0,
-          started_at: new Date().toISOString()
-        })
-        .select()
-        .single();
-
-      if (error) {
-        // If error is duplicate key, update the started_at time
-        if (error.code === '23505') {
-          const { error: updateError } = await supabase
-            .from('user_progress')
-            .update({ started_at: new Date().toISOString() })
-            .eq('user_id', userId)
-            .eq('lesson_id', lessonId);
-          
-          return !updateError;
-        }
-        console.error('Error starting lesson:', error);
-        return false;
-      }
-
-      return true;
-    } catch (error) {
-      console.error('Start lesson error:', error);
-      return false;
-    }
+    const entry = outboxService.createEntry<StartLessonPayload>('start_lesson', {
+      userId,
+      lessonId,
+      startedAt: new Date().toISOString()
+    });
+    return this.applyOrQueue(entry, (e) => this.applyStartLesson(e));
   }
 
   /**
-   * Complete a lesson
+   * Complete a lesson with the score and stats from the learner's session
+   * Queued for later if Supabase can't be reached
    */
   async completeLesson(
     userId: string,
     lessonId: string,
     score: number,
-    timeSpent?: number  // Optional, as we're tracking started_at instead
+    stats?: LessonSessionStats
   ): Promise<boolean> {
-    try {
-      // Get lesson details for rewards
-      const { data: lesson } = await supabase
-        .from('lessons')
-        .select('xp_reward, cowrie_reward')
-        .eq('id', lessonId)
-        .single();
+    const entry = outboxService.createEntry<CompleteLessonPayload>('complete_lesson', {
+      userId,
+      lessonId,
+      score,
+      completedAt: new Date().toISOString(),
+      stats
+    });
+    return this.applyOrQueue(entry, (e) => this.applyCompleteLesson(e));
+  }
+
+  /**
+   * Replay any writes that were queued while offline
+   */
+  async syncPendingChanges(): Promise<number> {
+    return outboxService.flush();
+  }
+
+  /**
+   * Apply a mutation now, or queue it if we're offline. Anything
+   * already queued goes first so writes reach the server in order.
+   */
+  private async applyOrQueue<T>(
+    entry: OutboxEntry<T>,
+    apply: (entry: OutboxEntry<T>) => Promise<void>
+  ): Promise<boolean> {
+    if (outboxService.pendingCount() > 0) {
+      outboxService.enqueue(entry);
+      outboxService.flush();
+      return true;
+    }
 
-      if (!lesson) {
-        console.error('Lesson not found');
-        return false;
+    try {
+      await apply(entry);
+      return true;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        outboxService.enqueue(entry);
+        return true;
       }
+      console.error(`Error applying ${entry.type}:`, error);
+      return false;
+    }
+  }
+
+  private async applySubmitExercise({ id, payload, createdAt }: OutboxEntry<SubmitExercisePayload>) {
+    // client_request_id makes replays of the same attempt a no-op. The
+    // server grades the response itself and overwrites is_correct.
+    const { error } = await supabase
+      .from('exercise_attempts')
+      .upsert({
+        client_request_id: id,
+        user_id: payload.userId,
+        exercise_id: payload.exerciseId,
+        response: payload.response,
+        is_correct: payload.isCorrect,
+        pronunciation_score: payload.pronunciationScore,
+        created_at: createdAt
+      }, {
+        onConflict: 'client_request_id',
+        ignoreDuplicates: true
+      });
 
-      // Calculate actual rewards based on score
-      const scorePercentage = score / 100;
-      const earnedXP = Math.round(lesson.xp_reward * scorePercentage);
-      const earnedCowries = Math.round(lesson.cowrie_reward * scorePercentage);
+    if (error) throw error;
 
-      // Update user_progress table (NOT user_lessons)
-      const { error } = await supabase
-        .from('user_progress')  // FIXED: Changed from user_lessons
-        .upsert({
-          user_id: userId,
-          lesson_id: lessonId,
-          completed: true,
-          score,
-          xp_earned: earnedXP,
-          cowries_earned: earnedCowries,
-          completed_at: new Date().toISOString()
-        }, {
-          onConflict: 'user_id,lesson_id'
-        });
+    // The server checks the attempt and grants the exercise's points once
+    if (payload.isCorrect) {
+      await rewardService.grant('exercise', payload.exerciseId, `exercise:${id}`);
+    }
+  }
 
-      if (error) {
-        console.error('Error completing lesson:', error);
-        return false;
-      }
+  private async applyStartLesson({ payload }: OutboxEntry<StartLessonPayload>) {
+    const { error } = await supabase
+      .from('user_progress')
+      .insert({
+        user_id: payload.userId,
+        lesson_id: payload.lessonId,
+        completed: false,
+        score: 0,
+        xp_earned: 0,
+        cowries_earned: 0,
+        started_at: payload.startedAt
+      });
 
-      // Update user profile stats
-      await this.updateUserStats(userId, earnedXP, earnedCowries);
+    if (!error) return;
 
-      return true;
-    } catch (error) {
-      console.error('Complete lesson error:', error);
-      return false;
+    // If error is duplicate key, move started_at forward - but never
+    // back, so a start replayed late can't overwrite a newer one
+    if (error.code === '23505') {
+      const { error: updateError } = await supabase
+        .from('user_progress')
+        .update({ started_at: payload.startedAt })
+        .eq('user_id', payload.userId)
+        .eq('lesson_id', payload.lessonId)
+        .or(`started_at.is.null,started_at.lt."${payload.startedAt}"`);
+
+      if (updateError) throw updateError;
+      return;
     }
+
+    throw error;
   }
 
-  /**
-   * Update user statistics after lesson completion
-   */
-  private async updateUserStats(userId: string, xpEarned: number, cowriesEarned: number): Promise<void> {
-    try {
-      // Get current user stats
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('total_xp, cowrie_shells')
-        .eq('id', userId)
-        .single();
+  private async applyCompleteLesson({ id, payload }: OutboxEntry<CompleteLessonPayload>) {
+    // Get lesson details for rewards
+    const { data: lesson, error: lessonError } = await supabase
+      .from('lessons')
+      .select('xp_reward, cowrie_reward')
+      .eq('id', payload.lessonId)
+      .single();
+
+    if (lessonError || !lesson) {
+      throw lessonError || new Error('Lesson not found');
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('user_progress')
+      .select('completed, score, started_at')
+      .eq('user_id', payload.userId)
+      .eq('lesson_id', payload.lessonId)
+      .maybeSingle();
 
-      if (profile) {
-        await supabase
-          .from('profiles')
-          .update({
-            total_xp: (profile.total_xp || 0) + xpEarned,
-            cowrie_shells: (profile.cowrie_shells || 0) + cowriesEarned
+    if (existingError) throw existingError;
+
+    // Time comes from the recorded start; the session's own clock is
+    // the fallback when the start never reached the server
+    const timeSpentSeconds = existing?.started_at
+      ? Math.max(0, Math.round(
+          (new Date(payload.completedAt).getTime() - new Date(existing.started_at).getTime()) / 1000
+        ))
+      : payload.stats?.timeSpentSeconds;
+
+    // Best score wins: keep an equal or better completion already recorded
+    if (!existing?.completed || existing.score < payload.score) {
+      const scorePercentage = payload.score / 100;
+
+      const { error } = await supabase
+        .from('user_progress')
+        .upsert({
+          user_id: payload.userId,
+          lesson_id: payload.lessonId,
+          completed: true,
+          score: payload.score,
+          xp_earned: Math.round(lesson.xp_reward * scorePercentage),
+          cowries_earned: Math.round(lesson.cowrie_reward * scorePercentage),
+          completed_at: payload.completedAt,
+          time_spent_seconds: timeSpentSeconds,
+          ...(payload.stats && {
+            correct_answers: payload.stats.correctAnswers,
+            incorrect_answers: payload.stats.incorrectAnswers,
+            hints_used: payload.stats.hintsUsed,
+            retries: payload.stats.retries
           })
-          .eq('id', userId);
-      }
-    } catch (error) {
-      console.error('Update user stats error:', error);
+        }, {
+          onConflict: 'user_id,lesson_id'
+        });
+
+      if (error) throw error;
     }
+
+    // The server grants whatever the best score earns beyond earlier
+    // grants for this lesson, so this is safe to replay
+    await rewardService.grant('lesson', payload.lessonId, `lesson:${id}`);
   }
 
   /**
@@ -434,6 +545,36 @@ class LessonService {
     }
   }
 
+  /**
+   * Get a lesson's exercises and vocabulary, throwing if either fetch
+   * fails rather than returning an empty list
+   */
+  async fetchLessonContent(lessonId: string): Promise<{
+    exercises: Exercise[];
+    vocabulary: Vocabulary[];
+  }> {
+    const [exercisesResult, vocabularyResult] = await Promise.all([
+      supabase
+        .from('exercises')
+        .select('*')
+        .eq('lesson_id', lessonId)
+        .order('exercise_order'),
+      supabase
+        .from('vocabulary')
+        .select('*')
+        .eq('lesson_id', lessonId)
+        .order('display_order')
+    ]);
+
+    if (exercisesResult.error) throw exercisesResult.error;
+    if (vocabularyResult.error) throw vocabularyResult.error;
+
+    return {
+      exercises: exercisesResult.data || [],
+      vocabulary: vocabularyResult.data || []
+    };
+  }
+
   /**
    * Get user's overall statistics
    */
@@ -446,6 +587,7 @@ class LessonService {
       language: string;
       progress: number;
       lessonsCompleted: number;
+      totalLessons: number;
     }>;
   }> {
     try {
@@ -504,7 +646,8 @@ class LessonService {
       const languages = Array.from(languageStats.entries()).map(([code, stats]) => ({
         language: code,
         progress: stats.total > 0 ? Math.round((stats.completed / stats.total) * 100) : 0,
-        lessonsCompleted: stats.completed
+        lessonsCompleted: stats.completed,
+        totalLessons: stats.total
       }));
 
       return {
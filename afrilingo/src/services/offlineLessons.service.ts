@@ -0,0 +1,156 @@
+/**
+ * Offline Lesson Service
+ * Downloads a language's lessons, exercises and vocabulary, plus the
+ * generated audio for its vocabulary, into a versioned local pack so
+ * learners on patchy mobile data can keep studying.
+ */
+
+import { STORAGE_KEYS } from '../config/constants';
+import { lessonService, LISTENING_EXERCISE_TYPES, type Lesson, type Exercise, type Vocabulary } from './lessonService';
+import { spitchService } from './spitch.service';
+import { audioCache, type AudioCacheKey } from './audioCache.service';
+
+// Bump when the pack shape changes; older packs are then ignored
+export const OFFLINE_PACK_VERSION = 1;
+
+export type PackLanguage = 'yo' | 'ig' | 'ha';
+
+export interface OfflineLessonEntry {
+  lesson: Lesson;
+  exercises: Exercise[];
+  vocabulary: Vocabulary[];
+}
+
+export interface OfflineLessonPack {
+  version: number;
+  language: PackLanguage;
+  downloadedAt: string;
+  lessons: OfflineLessonEntry[];
+  audio: AudioCacheKey[];
+}
+
+type StoredPacks = Partial<Record<PackLanguage, OfflineLessonPack>>;
+
+class OfflineLessonService {
+  private readPacks(): StoredPacks {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEYS.OFFLINE_LESSONS);
+      return raw ? JSON.parse(raw) : {};
+    } catch (error) {
+      console.error('Failed to read offline lessons:', error);
+      return {};
+    }
+  }
+
+  private writePacks(packs: StoredPacks) {
+    localStorage.setItem(STORAGE_KEYS.OFFLINE_LESSONS, JSON.stringify(packs));
+  }
+
+  /**
+   * Whether the browser currently reports no network connection
+   */
+  isOffline(): boolean {
+    return typeof navigator !== 'undefined' && !navigator.onLine;
+  }
+
+  /**
+   * Get the downloaded pack for a language, if it's usable
+   */
+  getPack(language: PackLanguage): OfflineLessonPack | null {
+    const pack = this.readPacks()[language];
+    if (!pack || pack.version !== OFFLINE_PACK_VERSION) return null;
+    return pack;
+  }
+
+  /**
+   * Get one lesson's content from a downloaded pack
+   */
+  getLesson(language: PackLanguage, lessonId: string): OfflineLessonEntry | null {
+    return this.getPack(language)?.lessons.find(entry => entry.lesson.id === lessonId) || null;
+  }
+
+  /**
+   * Download every lesson for a language, with vocabulary and
+   * listening exercise audio
+   */
+  async downloadPack(
+    language: PackLanguage,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<OfflineLessonPack> {
+    const lessons = await lessonService.getLessonsByLanguage(language);
+    if (lessons.length === 0) {
+      throw new Error('No lessons available to download');
+    }
+
+    // A lesson saved without its content would look complete offline,
+    // so any failed or empty fetch fails the whole download
+    const entries: OfflineLessonEntry[] = [];
+    for (const lesson of lessons) {
+      const { exercises, vocabulary } = await lessonService.fetchLessonContent(lesson.id);
+      if (exercises.length === 0 && vocabulary.length === 0) {
+        throw new Error(`No content available for "${lesson.title}"`);
+      }
+      entries.push({ lesson, exercises, vocabulary });
+    }
+
+    // Pre-generate speech for every vocabulary word and listening exercise
+    const words = Array.from(new Set(entries.flatMap(entry => [
+      ...entry.vocabulary.map(v => v.word),
+      ...entry.exercises
+        .filter(exercise => LISTENING_EXERCISE_TYPES.includes(exercise.exercise_type))
+        .map(exercise => exercise.correct_answer)
+    ])));
+    const previous = this.readPacks()[language];
+    const audio: AudioCacheKey[] = [];
+    try {
+      for (let i = 0; i < words.length; i++) {
+        audio.push(await spitchService.preloadSpeech(words[i], language));
+        onProgress?.(i + 1, words.length);
+      }
+
+      // Audio served from memory or refused by the cache was never
+      // stored, so pinning it did nothing
+      if (!(await audioCache.hasAll(audio))) {
+        throw new Error('Not all audio could be saved on this device');
+      }
+    } catch (error) {
+      // Release what this attempt pinned, keeping the previous pack's audio
+      const kept = new Set(previous?.audio.map(key => JSON.stringify(key)));
+      await audioCache.setPinned(audio.filter(key => !kept.has(JSON.stringify(key))), false);
+      throw error;
+    }
+
+    // Release audio from a previous version of this pack that is no longer used
+    if (previous) {
+      const current = new Set(audio.map(key => JSON.stringify(key)));
+      const stale = previous.audio.filter(key => !current.has(JSON.stringify(key)));
+      await audioCache.setPinned(stale, false);
+    }
+
+    const pack: OfflineLessonPack = {
+      version: OFFLINE_PACK_VERSION,
+      language,
+      downloadedAt: new Date().toISOString(),
+      lessons: entries,
+      audio
+    };
+
+    this.writePacks({ ...this.readPacks(), [language]: pack });
+    return pack;
+  }
+
+  /**
+   * Delete a language pack and let its audio be evicted normally
+   */
+  async removePack(language: PackLanguage): Promise<void> {
+    const packs = this.readPacks();
+    const pack = packs[language];
+    if (!pack) return;
+
+    delete packs[language];
+    this.writePacks(packs);
+    await audioCache.setPinned(pack.audio, false);
+  }
+}
+
+export const offlineLessonService = new OfflineLessonService();
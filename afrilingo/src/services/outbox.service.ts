@@ -0,0 +1,181 @@
+/**
+ * Outbox Service
+ * A durable, ordered queue of writes that couldn't reach Supabase.
+ * Each entry carries an idempotency key so replaying it after a
+ * partial failure never records the same mutation twice.
+ */
+
+import { STORAGE_KEYS } from '../config/constants';
+
+export interface OutboxEntry<T = any> {
+  id: string; // Idempotency key, generated when the mutation is first attempted
+  type: string;
+  payload: T;
+  createdAt: string;
+  attempts: number;
+}
+
+export type OutboxHandler<T = any> = (entry: OutboxEntry<T>) => Promise<void>;
+
+// Entries that keep failing for non-network reasons are eventually dropped
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Whether an error means "couldn't reach the server" rather than
+ * "the server rejected this"
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = (error as { message?: string } | null)?.message || String(error);
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+class OutboxService {
+  private handlers = new Map<string, OutboxHandler>();
+  private flushing: Promise<number> | null = null;
+  // Entries are queued per user and only replayed under their session
+  private userId: string | null = null;
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.flush();
+      });
+    }
+  }
+
+  private storageKey(): string | null {
+    return this.userId ? `${STORAGE_KEYS.OUTBOX}:${this.userId}` : null;
+  }
+
+  private read(key = this.storageKey()): OutboxEntry[] {
+    if (!key) return [];
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error('Failed to read outbox:', error);
+      return [];
+    }
+  }
+
+  private write(entries: OutboxEntry[], key = this.storageKey()) {
+    if (!key) return;
+    if (entries.length === 0) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(entries));
+    }
+  }
+
+  /**
+   * Switch to the signed-in user's queue, or park it on sign-out. A
+   * parked queue replays the next time its user signs in.
+   */
+  setUser(userId: string | null) {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    if (!userId) return;
+
+    // A replay for the previous user stops at its next entry
+    (this.flushing ?? Promise.resolve()).finally(() => {
+      if (this.userId === userId) this.flush();
+    });
+  }
+
+  /**
+   * Register how a mutation type is applied to the server
+   */
+  registerHandler<T>(type: string, handler: OutboxHandler<T>) {
+    this.handlers.set(type, handler as OutboxHandler);
+  }
+
+  /**
+   * Create a new entry with a fresh idempotency key (not yet queued)
+   */
+  createEntry<T>(type: string, payload: T): OutboxEntry<T> {
+    return {
+      id: crypto.randomUUID(),
+      type,
+      payload,
+      createdAt: new Date().toISOString(),
+      attempts: 0
+    };
+  }
+
+  /**
+   * Persist an entry to be replayed when connectivity returns
+   */
+  enqueue(entry: OutboxEntry) {
+    if (!this.userId) {
+      console.warn(`Not queueing "${entry.type}" without a signed-in user`);
+      return;
+    }
+    const entries = this.read();
+    if (entries.some(existing => existing.id === entry.id)) return;
+    this.write([...entries, entry]);
+  }
+
+  pendingCount(): number {
+    return this.read().length;
+  }
+
+  /**
+   * Replay queued entries in order. Stops at the first network failure
+   * so later entries never overtake earlier ones. Resolves to the
+   * number of entries applied.
+   */
+  flush(): Promise<number> {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async replay(): Promise<number> {
+    const key = this.storageKey();
+    let applied = 0;
+
+    for (const entry of this.read(key)) {
+      // The user changed; the rest waits for its own session
+      if (key !== this.storageKey()) break;
+
+      const handler = this.handlers.get(entry.type);
+      if (!handler) {
+        console.warn(`No outbox handler for "${entry.type}", keeping entry`);
+        break;
+      }
+
+      try {
+        await handler(entry);
+        this.remove(key, entry.id);
+        applied++;
+      } catch (error) {
+        if (isNetworkError(error)) break;
+
+        const attempts = entry.attempts + 1;
+        if (attempts >= MAX_ATTEMPTS) {
+          console.error(`Dropping outbox entry ${entry.id} after ${attempts} attempts:`, error);
+          this.remove(key, entry.id);
+        } else {
+          this.update(key, { ...entry, attempts });
+        }
+        break;
+      }
+    }
+
+    return applied;
+  }
+
+  private remove(key: string | null, id: string) {
+    this.write(this.read(key).filter(entry => entry.id !== id), key);
+  }
+
+  private update(key: string | null, updated: OutboxEntry) {
+    this.write(this.read(key).map(entry => (entry.id === updated.id ? updated : entry)), key);
+  }
+}
+
+export const outboxService = new OutboxService();
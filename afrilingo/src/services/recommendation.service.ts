@@ -0,0 +1,232 @@
+/**
+ * Recommendation Service
+ * Estimates how well a learner knows each skill from their exercise
+ * attempts and lesson scores, then suggests what to study: the next
+ * lesson at a suitable difficulty, remedial lessons where accuracy is
+ * low, and lessons they can test out of.
+ */
+
+import { supabase } from '../lib/supabase';
+import type { Lesson } from './lessonService';
+import type { Skill } from './dashboard.service';
+
+export interface SkillMastery {
+  skill: Skill;
+  mastery: number; // 0-1
+  evidence: number; // Recency-weighted number of observations
+}
+
+export interface LessonRecommendation {
+  lesson: Lesson;
+  kind: 'next' | 'remedial' | 'test_out';
+  reason: string;
+  accuracy?: number; // 0-1, for remedial lessons
+}
+
+export interface LearningPlan {
+  mastery: SkillMastery[];
+  next: LessonRecommendation | null;
+  remedial: LessonRecommendation[];
+  testOut: LessonRecommendation[];
+  completedLessonIds: string[];
+}
+
+// Accuracy below this on a completed lesson suggests revisiting it
+export const REMEDIAL_THRESHOLD = 0.6;
+// Skill mastery needed before a learner is offered a test-out
+export const TEST_OUT_MASTERY = 0.85;
+// Score (percent) needed to pass a test-out
+export const TEST_OUT_PASS_SCORE = 80;
+
+// Older attempts count for less: weight halves every two weeks
+const HALF_LIFE_DAYS = 14;
+const MIN_REMEDIAL_EVIDENCE = 2;
+const MIN_TEST_OUT_EVIDENCE = 5;
+const MAX_SUGGESTIONS = 3;
+
+interface Evidence {
+  correct: number;
+  total: number;
+}
+
+// Columns selected from exercise_attempts by getLearningPlan
+interface AttemptRow {
+  is_correct: boolean;
+  created_at: string;
+  exercises: { lesson_id: string };
+}
+
+const recencyWeight = (createdAt: string, now: number) => {
+  const ageDays = (now - new Date(createdAt).getTime()) / (24 * 60 * 60 * 1000);
+  return Math.pow(0.5, Math.max(0, ageDays) / HALF_LIFE_DAYS);
+};
+
+// Laplace-smoothed accuracy, so a single attempt doesn't read as 0% or 100%
+const smoothedAccuracy = ({ correct, total }: Evidence) => (correct + 1) / (total + 2);
+
+class RecommendationService {
+  /**
+   * Build a study plan for one language
+   */
+  async getLearningPlan(userId: string, lessons: Lesson[]): Promise<LearningPlan> {
+    const lessonIds = lessons.map(lesson => lesson.id);
+    const empty: LearningPlan = { mastery: [], next: null, remedial: [], testOut: [], completedLessonIds: [] };
+    if (lessonIds.length === 0) return empty;
+
+    const [{ data: progress, error: progressError }, { data: attempts, error: attemptsError }] = await Promise.all([
+      supabase
+        .from('user_progress')
+        .select('lesson_id, completed, score')
+        .eq('user_id', userId)
+        .in('lesson_id', lessonIds),
+      supabase
+        .from('exercise_attempts')
+        .select('is_correct, created_at, exercises!inner(lesson_id)')
+        .eq('user_id', userId)
+        .in('exercises.lesson_id', lessonIds)
+        .overrideTypes<AttemptRow[], { merge: false }>()
+    ]);
+
+    if (progressError) throw progressError;
+    if (attemptsError) throw attemptsError;
+
+    const now = Date.now();
+
+    // Per-lesson evidence from attempts
+    const lessonEvidence = new Map<string, Evidence>();
+    (attempts || []).forEach(attempt => {
+      const lessonId = attempt.exercises.lesson_id;
+      const weight = recencyWeight(attempt.created_at, now);
+      const evidence = lessonEvidence.get(lessonId) || { correct: 0, total: 0 };
+      evidence.total += weight;
+      if (attempt.is_correct) evidence.correct += weight;
+      lessonEvidence.set(lessonId, evidence);
+    });
+
+    const completed = new Map<string, number>(
+      (progress || []).filter(p => p.completed).map(p => [p.lesson_id, p.score || 0])
+    );
+
+    // Per-skill evidence: attempts plus each completed lesson's score
+    const skillEvidence = new Map<Skill, Evidence>();
+    lessons.forEach(lesson => {
+      const evidence = skillEvidence.get(lesson.lesson_type) || { correct: 0, total: 0 };
+      const attemptsEvidence = lessonEvidence.get(lesson.id);
+      if (attemptsEvidence) {
+        evidence.correct += attemptsEvidence.correct;
+        evidence.total += attemptsEvidence.total;
+      }
+      const score = completed.get(lesson.id);
+      if (score !== undefined) {
+        evidence.correct += score / 100;
+        evidence.total += 1;
+      }
+      skillEvidence.set(lesson.lesson_type, evidence);
+    });
+
+    const mastery: SkillMastery[] = Array.from(skillEvidence.entries()).map(([skill, evidence]) => ({
+      skill,
+      mastery: smoothedAccuracy(evidence),
+      evidence: evidence.total
+    }));
+    const masteryBySkill = new Map(mastery.map(m => [m.skill, m]));
+
+    const uncompleted = lessons
+      .filter(lesson => !completed.has(lesson.id))
+      .sort((a, b) => a.lesson_order - b.lesson_order);
+
+    return {
+      mastery,
+      next: this.pickNextLesson(lessons, uncompleted, completed, masteryBySkill),
+      remedial: this.pickRemedialLessons(lessons, completed, lessonEvidence),
+      testOut: this.pickTestOutLessons(uncompleted, masteryBySkill),
+      completedLessonIds: Array.from(completed.keys())
+    };
+  }
+
+  /**
+   * The first lesson in course order whose difficulty the learner is
+   * ready for; they move up a difficulty once their skill is solid
+   */
+  private pickNextLesson(
+    lessons: Lesson[],
+    uncompleted: Lesson[],
+    completed: Map<string, number>,
+    masteryBySkill: Map<Skill, SkillMastery>
+  ): LessonRecommendation | null {
+    if (uncompleted.length === 0) return null;
+
+    const readyFor = (lesson: Lesson) => {
+      const completedOfSkill = lessons.filter(l => l.lesson_type === lesson.lesson_type && completed.has(l.id));
+      const highest = Math.max(1, ...completedOfSkill.map(l => l.difficulty || 1));
+      const skillMastery = masteryBySkill.get(lesson.lesson_type)?.mastery ?? 0.5;
+      return (lesson.difficulty || 1) <= (skillMastery >= 0.7 ? highest + 1 : highest);
+    };
+
+    const ready = uncompleted.find(readyFor);
+    if (ready) {
+      return {
+        lesson: ready,
+        kind: 'next',
+        reason: completed.size === 0 ? 'Start here' : 'Next in your course'
+      };
+    }
+
+    const easiest = [...uncompleted].sort((a, b) => (a.difficulty || 1) - (b.difficulty || 1))[0];
+    return {
+      lesson: easiest,
+      kind: 'next',
+      reason: 'Builds up to harder lessons'
+    };
+  }
+
+  /**
+   * Completed lessons where the learner's accuracy has fallen short
+   */
+  private pickRemedialLessons(
+    lessons: Lesson[],
+    completed: Map<string, number>,
+    lessonEvidence: Map<string, Evidence>
+  ): LessonRecommendation[] {
+    return lessons
+      .filter(lesson => completed.has(lesson.id))
+      .map(lesson => {
+        const evidence = lessonEvidence.get(lesson.id);
+        const accuracy = evidence && evidence.total >= MIN_REMEDIAL_EVIDENCE
+          ? smoothedAccuracy(evidence)
+          : (completed.get(lesson.id) || 0) / 100;
+        return { lesson, accuracy };
+      })
+      .filter(({ accuracy }) => accuracy < REMEDIAL_THRESHOLD)
+      .sort((a, b) => a.accuracy - b.accuracy)
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({ lesson, accuracy }) => ({
+        lesson,
+        kind: 'remedial' as const,
+        reason: `${Math.round(accuracy * 100)}% accuracy - worth another look`,
+        accuracy
+      }));
+  }
+
+  /**
+   * Upcoming lessons in skills the learner has clearly mastered
+   */
+  private pickTestOutLessons(
+    uncompleted: Lesson[],
+    masteryBySkill: Map<Skill, SkillMastery>
+  ): LessonRecommendation[] {
+    return uncompleted
+      .filter(lesson => {
+        const skill = masteryBySkill.get(lesson.lesson_type);
+        return skill && skill.evidence >= MIN_TEST_OUT_EVIDENCE && skill.mastery >= TEST_OUT_MASTERY;
+      })
+      .slice(0, MAX_SUGGESTIONS)
+      .map(lesson => ({
+        lesson,
+        kind: 'test_out' as const,
+        reason: `You're strong at ${lesson.lesson_type} - skip ahead with a quick test`
+      }));
+  }
+}
+
+export const recommendationService = new RecommendationService();
@@ -0,0 +1,162 @@
+/**
+ * Review Service
+ * Loads a learner's vocabulary review queue and records review
+ * outcomes. Words are enrolled on the server when their lesson is
+ * completed; scheduling is done here with SM-2.
+ */
+
+import { supabase } from '../lib/supabase';
+import { outboxService, isNetworkError, type OutboxEntry } from './outbox.service';
+import { scheduleReview, type MemoryState, type ReviewGrade } from '../utils/srs';
+import type { Vocabulary } from './lessonService';
+
+export interface ReviewItem {
+  vocabulary: Pick<Vocabulary, 'id' | 'word' | 'translation' | 'pronunciation'>;
+  state: MemoryState;
+  dueAt: string;
+  lastReviewedAt: string | null;
+}
+
+interface RecordReviewPayload {
+  userId: string;
+  vocabularyId: string;
+  state: MemoryState;
+  dueAt: string;
+  reviewedAt: string;
+}
+
+// Columns selected by getReviewItems
+interface ReviewRow {
+  ease_factor: number | string; // numeric, which may arrive as a string
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+  vocabulary: Pick<Vocabulary, 'id' | 'word' | 'translation' | 'pronunciation'>;
+}
+
+class ReviewService {
+  constructor() {
+    outboxService.registerHandler<RecordReviewPayload>('record_review', (entry) =>
+      this.applyRecordReview(entry)
+    );
+  }
+
+  /**
+   * Every enrolled word for a language, soonest due first
+   */
+  async getReviewItems(userId: string, languageCode: string): Promise<ReviewItem[]> {
+    const { data, error } = await supabase
+      .from('vocabulary_reviews')
+      .select(`
+        ease_factor,
+        interval_days,
+        repetitions,
+        lapses,
+        due_at,
+        last_reviewed_at,
+        vocabulary!inner(
+          id,
+          word,
+          translation,
+          pronunciation,
+          lessons!inner(
+            languages!inner(code)
+          )
+        )
+      `)
+      .eq('user_id', userId)
+      .eq('vocabulary.lessons.languages.code', languageCode)
+      .order('due_at')
+      .overrideTypes<ReviewRow[], { merge: false }>();
+
+    if (error) {
+      console.error('Error fetching review items:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      vocabulary: {
+        id: row.vocabulary.id,
+        word: row.vocabulary.word,
+        translation: row.vocabulary.translation,
+        pronunciation: row.vocabulary.pronunciation
+      },
+      state: {
+        easeFactor: Number(row.ease_factor),
+        intervalDays: row.interval_days,
+        repetitions: row.repetitions,
+        lapses: row.lapses
+      },
+      dueAt: row.due_at,
+      lastReviewedAt: row.last_reviewed_at
+    }));
+  }
+
+  /**
+   * Items due now, oldest due first
+   */
+  getDue(items: ReviewItem[], now: Date = new Date()): ReviewItem[] {
+    return items.filter(item => new Date(item.dueAt) <= now);
+  }
+
+  /**
+   * Grade a review and schedule the word's next one. Queued for later
+   * if Supabase can't be reached. Resolves to the rescheduled item.
+   */
+  async recordReview(userId: string, item: ReviewItem, grade: ReviewGrade): Promise<ReviewItem> {
+    const reviewedAt = new Date();
+    const { state, dueAt } = scheduleReview(item.state, grade, reviewedAt);
+
+    const entry = outboxService.createEntry<RecordReviewPayload>('record_review', {
+      userId,
+      vocabularyId: item.vocabulary.id,
+      state,
+      dueAt: dueAt.toISOString(),
+      reviewedAt: reviewedAt.toISOString()
+    });
+
+    if (outboxService.pendingCount() > 0) {
+      outboxService.enqueue(entry);
+      outboxService.flush();
+    } else {
+      try {
+        await this.applyRecordReview(entry);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          outboxService.enqueue(entry);
+        } else {
+          console.error('Error recording review:', error);
+        }
+      }
+    }
+
+    return {
+      ...item,
+      state,
+      dueAt: dueAt.toISOString(),
+      lastReviewedAt: reviewedAt.toISOString()
+    };
+  }
+
+  private async applyRecordReview({ payload }: OutboxEntry<RecordReviewPayload>) {
+    // Absolute state, so replaying the entry is a no-op
+    const { error } = await supabase
+      .from('vocabulary_reviews')
+      .update({
+        ease_factor: payload.state.easeFactor,
+        interval_days: payload.state.intervalDays,
+        repetitions: payload.state.repetitions,
+        lapses: payload.state.lapses,
+        due_at: payload.dueAt,
+        last_reviewed_at: payload.reviewedAt
+      })
+      .eq('user_id', payload.userId)
+      .eq('vocabulary_id', payload.vocabularyId);
+
+    if (error) throw error;
+  }
+}
+
+export const reviewService = new ReviewService();
@@ -0,0 +1,159 @@
+/**
+ * Reward Service
+ * XP and cowries are granted by the server, never set by the client.
+ * Every grant is an append-only row in reward_events, written by the
+ * grant_reward RPC after it checks the grant against its source;
+ * the profile totals are a projection of that ledger.
+ */
+
+import { supabase } from '../lib/supabase';
+import { outboxService, isNetworkError, type OutboxEntry } from './outbox.service';
+
+// Sources the client may ask grant_reward about; the rest are
+// written by the server itself
+export type RewardSource = 'exercise' | 'lesson' | 'practice';
+
+export type RewardEventSource =
+  | RewardSource
+  | 'opening_balance'
+  | 'level_up'
+  | 'streak'
+  | 'streak_freeze'
+  | 'achievement';
+
+export interface RewardGrant {
+  granted: boolean;
+  reason?: 'duplicate' | 'already_granted' | 'no_correct_attempt' | 'lesson_not_completed' | 'daily_limit';
+  xp: number;
+  cowries: number;
+  levelsGained: number;
+  totalXp?: number;
+  totalCowries?: number;
+}
+
+export interface RewardEvent {
+  id: string;
+  user_id: string;
+  source_type: RewardEventSource;
+  source_id: string;
+  xp: number;
+  cowries: number;
+  idempotency_key: string;
+  created_at: string;
+}
+
+export interface RewardTotals {
+  totalXp: number;
+  totalCowries: number;
+}
+
+interface GrantRewardPayload {
+  source: RewardSource;
+  sourceId: string;
+  amount?: number;
+}
+
+class RewardService {
+  constructor() {
+    outboxService.registerHandler<GrantRewardPayload>('grant_reward', async (entry) => {
+      await this.applyGrant(entry);
+    });
+  }
+
+  /**
+   * Ask the server to grant the reward for a source. The idempotency
+   * key makes retries safe; the server decides the amounts.
+   */
+  async grant(
+    source: RewardSource,
+    sourceId: string,
+    idempotencyKey: string,
+    amount?: number
+  ): Promise<RewardGrant> {
+    const { data, error } = await supabase.rpc('grant_reward', {
+      p_source_type: source,
+      p_source_id: sourceId,
+      p_idempotency_key: idempotencyKey,
+      p_amount: amount ?? null
+    });
+
+    if (error) throw error;
+
+    return {
+      granted: Boolean(data?.granted),
+      reason: data?.reason,
+      xp: data?.xp || 0,
+      cowries: data?.cowries || 0,
+      levelsGained: data?.levelsGained || 0,
+      totalXp: data?.totalXp,
+      totalCowries: data?.totalCowries
+    };
+  }
+
+  /**
+   * Grant now, or queue the grant if we're offline. Resolves to null
+   * when the grant was queued.
+   */
+  async grantOrQueue(source: RewardSource, sourceId: string, amount?: number): Promise<RewardGrant | null> {
+    const entry = outboxService.createEntry<GrantRewardPayload>('grant_reward', { source, sourceId, amount });
+
+    if (outboxService.pendingCount() > 0) {
+      outboxService.enqueue(entry);
+      outboxService.flush();
+      return null;
+    }
+
+    try {
+      return await this.applyGrant(entry);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        outboxService.enqueue(entry);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private applyGrant({ id, payload }: OutboxEntry<GrantRewardPayload>): Promise<RewardGrant> {
+    return this.grant(payload.source, payload.sourceId, id, payload.amount);
+  }
+
+  /**
+   * Current balances, as projected from the ledger onto the profile
+   */
+  async getTotals(userId: string): Promise<RewardTotals> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('total_xp, cowrie_shells')
+      .eq('id', userId)
+      .single();
+
+    if (error) throw error;
+
+    return {
+      totalXp: data?.total_xp || 0,
+      totalCowries: data?.cowrie_shells || 0
+    };
+  }
+
+  /**
+   * Most recent ledger entries, newest first
+   */
+  async getEvents(userId: string, limit = 50): Promise<RewardEvent[]> {
+    const { data, error } = await supabase
+      .from('reward_events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching reward events:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+}
+
+export const rewardService = new RewardService();
@@ -4,7 +4,21 @@
  * Uses actual Spitch API endpoints for Nigerian language learning
  */
 
+import {
+  alignWords,
+  summarizeAlignment,
+  tokenizeWords,
+  type WordAlignment,
+} from "../utils/alignment";
+import { extractToneUnits, hasToneMarks, type Tone } from "../utils/tones";
+import { extractPitchContour, type PitchContour } from "../utils/pitch";
+import { audioCache, type AudioCacheKey } from "./audioCache.service";
+import { geminiService } from "./gemini.service";
+import { supabase } from "../lib/supabase";
+import { STORAGE_KEYS, SUPPORTED_LANGUAGES } from "../config/constants";
+
 const SPITCH_API_URL = "https://api.spi-tch.com";
+const SPEECH_MODEL = "legacy";
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -12,18 +26,39 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 interface PronunciationResult {
   score: number;
   feedback: string[];
+  alignment: WordAlignment[];
   details?: {
     accuracy: number;
     fluency: number;
     completeness: number;
+    tone?: ToneAnalysis;
   };
 }
 
+interface ToneError {
+  word: string;
+  syllableIndex: number; // 0-based position of the tone-bearing unit
+  syllable: string;
+  expectedTone: Tone;
+  actualTone: Tone;
+}
+
+interface ToneAnalysis {
+  accuracy: number;
+  syllablesChecked: number;
+  errors: ToneError[];
+}
+
 interface ToneMarkResult {
   request_id: string;
   text: string;
 }
 
+interface TranslationResult {
+  request_id: string;
+  text: string;
+}
+
 interface TranscriptionResult {
   request_id: string;
   text: string;
@@ -34,6 +69,172 @@ interface TranscriptionResult {
   }>;
 }
 
+type PronunciationErrorReason =
+  | "network"
+  | "unsupported-format"
+  | "quota"
+  | "empty-audio"
+  | "server";
+
+class PronunciationError extends Error {
+  reason: PronunciationErrorReason;
+
+  constructor(reason: PronunciationErrorReason, message: string) {
+    super(message);
+    this.name = "PronunciationError";
+    this.reason = reason;
+  }
+
+  /**
+   * Whether trying the same recording again could succeed
+   */
+  get retryable() {
+    return this.reason === "network" || this.reason === "server";
+  }
+}
+
+type SpitchEndpoint =
+  | "/v1/speech"
+  | "/v1/transcriptions"
+  | "/v1/diacritics"
+  | "/v1/translate";
+
+const QUOTA_FEATURES: Record<SpitchEndpoint, string> = {
+  "/v1/speech": "listening",
+  "/v1/transcriptions": "speech recognition",
+  "/v1/diacritics": "tone marking",
+  "/v1/translate": "translation",
+};
+
+// Used when a 429 arrives without a readable Retry-After
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+// Stable codes from the proxy's error responses, plus "network" for
+// requests that never got an answer
+type SpitchErrorCode =
+  | "unauthorized"
+  | "invalid_endpoint"
+  | "invalid_request"
+  | "quota_exceeded"
+  | "upstream_rejected"
+  | "service_busy"
+  | "service_unavailable"
+  | "internal_error"
+  | "network";
+
+const PROXY_ERROR_CODES: SpitchErrorCode[] = [
+  "unauthorized",
+  "invalid_endpoint",
+  "invalid_request",
+  "quota_exceeded",
+  "upstream_rejected",
+  "service_busy",
+  "service_unavailable",
+  "internal_error",
+];
+
+// Body of every error response from the proxy
+interface ProxyErrorBody {
+  code: string;
+  message: string;
+  requestId: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * A request to the Spitch proxy failed. requestId matches the proxy's
+ * logs for that request.
+ */
+class SpitchError extends Error {
+  code: SpitchErrorCode;
+  status: number; // 0 when the proxy couldn't be reached
+  requestId?: string;
+  details?: Record<string, unknown>;
+
+  constructor(
+    code: SpitchErrorCode,
+    message: string,
+    options: { status?: number; requestId?: string; details?: Record<string, unknown> } = {}
+  ) {
+    super(message);
+    this.name = "SpitchError";
+    this.code = code;
+    this.status = options.status ?? 0;
+    this.requestId = options.requestId;
+    this.details = options.details;
+  }
+
+  /**
+   * Whether sending the same request again later could succeed
+   */
+  get retryable() {
+    return (
+      this.code === "network" ||
+      this.code === "service_busy" ||
+      this.code === "service_unavailable" ||
+      this.code === "internal_error"
+    );
+  }
+
+  /**
+   * Field-level problems reported with an invalid_request error
+   */
+  get fieldErrors(): Array<{ field: string; message: string }> {
+    const fields = this.details?.fields;
+    return Array.isArray(fields) ? fields : [];
+  }
+}
+
+/**
+ * The proxy refused a request because the daily allowance for an
+ * endpoint is used up. Requests to it are not sent again until retryAt.
+ */
+class SpitchQuotaError extends SpitchError {
+  endpoint: SpitchEndpoint;
+  retryAt: number; // epoch ms
+
+  constructor(endpoint: SpitchEndpoint, retryAt: number, requestId?: string) {
+    const minutes = Math.max(1, Math.ceil((retryAt - Date.now()) / 60000));
+    const wait =
+      minutes >= 60
+        ? `${Math.floor(minutes / 60)} h ${minutes % 60} min`
+        : `${minutes} min`;
+    super(
+      "quota_exceeded",
+      `You've used today's ${QUOTA_FEATURES[endpoint]} allowance. It resets in ${wait}.`,
+      { status: 429, requestId }
+    );
+    this.name = "SpitchQuotaError";
+    this.endpoint = endpoint;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+const parseRetryAfter = (header: string | null): number => {
+  if (!header) return DEFAULT_RETRY_AFTER_SECONDS;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  return Number.isNaN(date)
+    ? DEFAULT_RETRY_AFTER_SECONDS
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+type TranslationLanguage = "yo" | "ig" | "ha" | "en";
+
+// Spitch translates between English and each Nigerian language, not
+// directly between two of them. Mirrored in the proxy's validate.ts.
+const supportsSpitchTranslation = (source: TranslationLanguage, target: TranslationLanguage) =>
+  source !== target && (source === "en" || target === "en");
+
+const translationLanguageName = (language: TranslationLanguage) =>
+  language === "en" ? "English" : SUPPORTED_LANGUAGES[language].name;
+
+const MAX_CACHED_TRANSLATIONS = 500;
+
 // Voice mapping based on Spitch documentation
 const VOICE_MAPPING = {
   yo: {
@@ -61,11 +262,78 @@ const VOICE_MAPPING = {
 class SpitchService {
   private proxyUrl: string;
   private audioCache: Map<string, Blob> = new Map();
+  private blockedUntil: Map<SpitchEndpoint, number> = new Map();
+  private translations: Map<string, string> | null = null;
+  private pendingTranslations: Map<string, Promise<string>> = new Map();
 
   constructor() {
-    this.proxyUrl = supabaseUrl
-      ? `${supabaseUrl}/functions/v1/spitch-proxy`
-      : "/api/spitch-proxy";
+    // VITE_SPITCH_PROXY_URL points at a stand-in such as src/scripts/spitchMock.ts
+    this.proxyUrl =
+      import.meta.env.VITE_SPITCH_PROXY_URL ||
+      (supabaseUrl ? `${supabaseUrl}/functions/v1/spitch-proxy` : "/api/spitch-proxy");
+  }
+
+  /**
+   * POST to the proxy as the signed-in user. Resolves only with a
+   * successful response; failures become a SpitchError. Honours
+   * Retry-After: once an endpoint answers 429 it isn't called again
+   * until the wait is over.
+   */
+  private async callProxy(
+    endpoint: SpitchEndpoint,
+    body: BodyInit,
+    contentType?: string
+  ): Promise<Response> {
+    const blockedUntil = this.blockedUntil.get(endpoint);
+    if (blockedUntil && blockedUntil > Date.now()) {
+      throw new SpitchQuotaError(endpoint, blockedUntil);
+    }
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    const requestId = crypto.randomUUID();
+    const headers: Record<string, string> = {
+      apikey: supabaseAnonKey,
+      Authorization: `Bearer ${session?.access_token ?? supabaseAnonKey}`,
+      "X-Request-Id": requestId,
+    };
+    if (contentType) headers["Content-Type"] = contentType;
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.proxyUrl}?endpoint=${endpoint}`, {
+        method: "POST",
+        headers,
+        body,
+      });
+    } catch {
+      throw new SpitchError(
+        "network",
+        "Couldn't reach the speech service. Check your connection and try again.",
+        { requestId }
+      );
+    }
+
+    if (response.ok) return response;
+
+    const errorBody = (await response.json().catch(() => null)) as ProxyErrorBody | null;
+    const responseRequestId = errorBody?.requestId ?? response.headers.get("X-Request-Id") ?? requestId;
+    console.error("Spitch proxy error:", response.status, errorBody?.code, responseRequestId);
+
+    if (response.status === 429) {
+      const retryAt =
+        Date.now() + parseRetryAfter(response.headers.get("Retry-After")) * 1000;
+      this.blockedUntil.set(endpoint, retryAt);
+      throw new SpitchQuotaError(endpoint, retryAt, responseRequestId);
+    }
+
+    const code = PROXY_ERROR_CODES.find((known) => known === errorBody?.code) ?? "internal_error";
+    throw new SpitchError(
+      code,
+      errorBody?.message || "The speech service ran into a problem. Please try again.",
+      { status: response.status, requestId: responseRequestId, details: errorBody?.details }
+    );
   }
 
   /**
@@ -77,11 +345,24 @@ class SpitchService {
     voice?: string
   ): Promise<Blob> {
     try {
-      const cacheKey = `${language}-${voice || "default"}-${text}`;
+      const selectedVoice = voice || VOICE_MAPPING[language].default;
+      const persistentKey = {
+        language,
+        voice: selectedVoice,
+        model: SPEECH_MODEL,
+        text,
+      };
+      const cacheKey = `${language}-${selectedVoice}-${audioCache.normalizeText(text)}`;
       if (this.audioCache.has(cacheKey)) {
         return this.audioCache.get(cacheKey)!;
       }
 
+      const storedBlob = await audioCache.get(persistentKey);
+      if (storedBlob) {
+        this.rememberAudio(cacheKey, storedBlob);
+        return storedBlob;
+      }
+
       let processedText = text;
       if (language === "yo") {
         try {
@@ -91,35 +372,21 @@ class SpitchService {
         }
       }
 
-      const selectedVoice = voice || VOICE_MAPPING[language].default;
-
-      const response = await fetch(`${this.proxyUrl}?endpoint=/v1/speech`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${supabaseAnonKey}`,
-        },
-        body: JSON.stringify({
+      const response = await this.callProxy(
+        "/v1/speech",
+        JSON.stringify({
           text: processedText,
           language,
           voice: selectedVoice,
-          model: "legacy",
+          model: SPEECH_MODEL,
         }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        console.error("Spitch API error:", response.status, errorData);
-        throw new Error(`Speech synthesis failed: ${response.status}`);
-      }
+        "application/json"
+      );
 
       const audioBlob = await response.blob();
 
-      this.audioCache.set(cacheKey, audioBlob);
-      if (this.audioCache.size > 50) {
-        const firstKey = this.audioCache.keys().next().value;
-        this.audioCache.delete(firstKey);
-      }
+      this.rememberAudio(cacheKey, audioBlob);
+      await audioCache.put(persistentKey, audioBlob);
 
       return audioBlob;
     } catch (error) {
@@ -128,32 +395,77 @@ class SpitchService {
     }
   }
 
+  /**
+   * Generate speech and keep it on this device for offline lessons.
+   * Returns the cache key so the pack can release it later.
+   */
+  async preloadSpeech(
+    text: string,
+    language: "yo" | "ig" | "ha" | "en",
+    voice?: string
+  ): Promise<AudioCacheKey> {
+    const audioBlob = await this.generateSpeech(text, language, voice);
+    const cacheKey = {
+      language,
+      voice: voice || VOICE_MAPPING[language].default,
+      model: SPEECH_MODEL,
+      text,
+    };
+    // Audio served from memory may never have been stored (or has since
+    // been evicted), so write it through before pinning
+    if (!(await audioCache.hasAll([cacheKey]))) {
+      await audioCache.put(cacheKey, audioBlob);
+    }
+    await audioCache.setPinned([cacheKey], true);
+    return cacheKey;
+  }
+
+  /**
+   * Keep recently used audio in memory for instant replay
+   */
+  private rememberAudio(cacheKey: string, audioBlob: Blob) {
+    this.audioCache.set(cacheKey, audioBlob);
+    if (this.audioCache.size > 50) {
+      const firstKey = this.audioCache.keys().next().value;
+      if (firstKey !== undefined) {
+        this.audioCache.delete(firstKey);
+      }
+    }
+  }
+
+  /**
+   * Decode any browser-supported audio blob into PCM samples
+   */
+  private async decodeAudio(blob: Blob): Promise<AudioBuffer> {
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+      const arrayBuffer = await blob.arrayBuffer();
+      return await audioContext.decodeAudioData(arrayBuffer);
+    } finally {
+      audioContext.close();
+    }
+  }
+
   /**
    * Convert WebM audio to WAV format
    */
   private async convertWebMToWav(webmBlob: Blob): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const reader = new FileReader();
-      
-      reader.onload = async () => {
-        try {
-          const arrayBuffer = reader.result as ArrayBuffer;
-          const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-          
-          // Convert to WAV
-          const wavBlob = this.audioBufferToWav(audioBuffer);
-          resolve(wavBlob);
-        } catch (error) {
-          console.error('Audio conversion error:', error);
-          // If conversion fails, return original blob
-          resolve(webmBlob);
-        }
-      };
-      
-      reader.onerror = () => reject(new Error('Failed to read audio file'));
-      reader.readAsArrayBuffer(webmBlob);
-    });
+    try {
+      const audioBuffer = await this.decodeAudio(webmBlob);
+      return this.audioBufferToWav(audioBuffer);
+    } catch (error) {
+      console.error('Audio conversion error:', error);
+      // If conversion fails, return original blob
+      return webmBlob;
+    }
+  }
+
+  /**
+   * Track the pitch (F0) contour of a recording or generated example
+   */
+  async getPitchContour(audioBlob: Blob): Promise<PitchContour> {
+    const audioBuffer = await this.decodeAudio(audioBlob);
+    return extractPitchContour(audioBuffer);
   }
 
   /**
@@ -217,116 +529,136 @@ class SpitchService {
 
   /**
    * Analyze pronunciation using Spitch API
+   * Throws a PronunciationError when the recording can't be scored
    */
   async analyzePronunciation(
     audioBlob: Blob,
     expectedText: string,
     language: "yo" | "ig" | "ha" | "en"
   ): Promise<PronunciationResult> {
-    try {
-      // Convert audio to WAV format if needed
-      let processedAudioBlob = audioBlob;
-      if (audioBlob.type.includes('webm')) {
-        try {
-          processedAudioBlob = await this.convertWebMToWav(audioBlob);
-        } catch (error) {
-          console.warn('Audio conversion failed, using original format');
-        }
+    if (audioBlob.size === 0) {
+      throw new PronunciationError(
+        "empty-audio",
+        "The recording is empty. Please record yourself again."
+      );
+    }
+
+    // Convert audio to WAV format if needed
+    let processedAudioBlob = audioBlob;
+    if (audioBlob.type.includes('webm')) {
+      try {
+        processedAudioBlob = await this.convertWebMToWav(audioBlob);
+      } catch (error) {
+        console.warn('Audio conversion failed, using original format');
       }
+    }
 
-      const formData = new FormData();
-      formData.append("content", processedAudioBlob, "recording.wav");
-      formData.append("language", language);
-      formData.append("model", "legacy");
+    const formData = new FormData();
+    formData.append("content", processedAudioBlob, "recording.wav");
+    formData.append("language", language);
+    formData.append("model", "legacy");
 
-      const specialWords = this.extractSpecialWords(expectedText);
-      if (specialWords.length > 0) {
-        formData.append("special_words", specialWords.join(","));
+    const specialWords = this.extractSpecialWords(expectedText);
+    if (specialWords.length > 0) {
+      formData.append("special_words", specialWords.join(","));
+    }
+
+    // A body that isn't a JSON object counts as a server problem too
+    let transcription: TranscriptionResult;
+    try {
+      const response = await this.callProxy("/v1/transcriptions", formData);
+      const body: unknown = await response.json();
+      if (!body || typeof body !== "object") {
+        throw new Error("Unexpected transcription response");
       }
+      transcription = body as TranscriptionResult;
+    } catch (error) {
+      console.error("Pronunciation analysis error:", error);
+      throw this.toPronunciationError(error);
+    }
 
-      const response = await fetch(
-        `${this.proxyUrl}?endpoint=/v1/transcriptions`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${supabaseAnonKey}`,
-          },
-          body: formData,
-        }
+    if (typeof transcription.text !== "string" || !transcription.text.trim()) {
+      throw new PronunciationError(
+        "empty-audio",
+        "We couldn't hear any speech. Move closer to the microphone and try again."
       );
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Transcription error:", response.status, errorText);
-        throw new Error(`Transcription failed: ${response.status}`);
-      }
+    const alignment = this.alignTranscription(
+      transcription.text,
+      expectedText
+    );
+    const score = this.calculatePronunciationScore(alignment);
+
+    const feedback = this.generateDetailedFeedback(
+      score,
+      alignment,
+      language
+    );
+
+    const tone =
+      language === "yo" || language === "ig"
+        ? await this.analyzeTones(transcription.text, alignment, language)
+        : undefined;
+    if (tone) {
+      feedback.push(...this.generateToneFeedback(tone));
+    }
 
-      const transcription: TranscriptionResult = await response.json();
+    return {
+      score,
+      feedback,
+      alignment,
+      details: {
+        accuracy: score,
+        fluency: score * 0.9,
+        completeness: this.calculateCompleteness(alignment),
+        tone,
+      },
+    };
+  }
 
-      const score = this.calculatePronunciationScore(
-        transcription.text,
-        expectedText
+  private toPronunciationError(error: unknown) {
+    const code = error instanceof SpitchError ? error.code : "internal_error";
+    if (error instanceof SpitchQuotaError) {
+      return new PronunciationError("quota", error.message);
+    }
+    if (code === "network") {
+      return new PronunciationError(
+        "network",
+        "Couldn't reach the pronunciation service. Check your connection and try again."
       );
-
-      const feedback = this.generateDetailedFeedback(
-        score,
-        transcription.text,
-        expectedText,
-        language
+    }
+    if (code === "service_busy") {
+      return new PronunciationError(
+        "quota",
+        "Pronunciation checks are temporarily unavailable. Please try again later."
+      );
+    }
+    if (code === "upstream_rejected" || code === "invalid_request") {
+      return new PronunciationError(
+        "unsupported-format",
+        "Your browser recorded audio in a format we can't analyze yet."
       );
-
-      return {
-        score,
-        feedback,
-        details: {
-          accuracy: score,
-          fluency: score * 0.9,
-          completeness: this.calculateCompleteness(
-            transcription.text,
-            expectedText
-          ),
-        },
-      };
-    } catch (error) {
-      console.error("Pronunciation analysis error:", error);
-      
-      // For now, return mock data if the actual API fails
-      // This helps with testing until the API is fully working
-      const mockScore = 0.75 + Math.random() * 0.2;
-      return {
-        score: mockScore,
-        feedback: this.generateDetailedFeedback(
-          mockScore,
-          expectedText + " (simulated)",
-          expectedText,
-          language
-        ),
-        details: {
-          accuracy: mockScore,
-          fluency: mockScore * 0.95,
-          completeness: 0.9
-        }
-      };
     }
+    return new PronunciationError(
+      "server",
+      "The pronunciation service ran into a problem. Please try again."
+    );
   }
 
   /**
    * Add tone marks to text for tonal languages
    */
   async addToneMarks(text: string, language: "yo" | "ig"): Promise<string> {
-    try {
-      const response = await fetch(`${this.proxyUrl}?endpoint=/v1/diacritics`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${supabaseAnonKey}`,
-        },
-        body: JSON.stringify({ language, text }),
-      });
+    // Spitch only restores tone marks for Yoruba; the proxy rejects others
+    if (language !== "yo") return text;
 
-      if (!response.ok) {
-        throw new Error("Tone marking failed");
-      }
+    try {
+      const response = await this.callProxy(
+        "/v1/diacritics",
+        JSON.stringify({ language, text }),
+        "application/json"
+      );
 
       const result: ToneMarkResult = await response.json();
       return result.text;
@@ -336,6 +668,91 @@ class SpitchService {
     }
   }
 
+  /**
+   * Translate a word or sentence. Results are kept on this device, and
+   * identical requests in flight share one call. Pairs Spitch can't
+   * translate directly go to Gemini instead.
+   */
+  async translate(
+    text: string,
+    source: TranslationLanguage,
+    target: TranslationLanguage
+  ): Promise<string> {
+    const trimmed = text.trim();
+    if (!trimmed || source === target) return trimmed;
+
+    const cacheKey = `${source}:${target}:${audioCache.normalizeText(trimmed)}`;
+    const cached = this.loadTranslations().get(cacheKey);
+    if (cached !== undefined) {
+      this.rememberTranslation(cacheKey, cached);
+      return cached;
+    }
+
+    const pending = this.pendingTranslations.get(cacheKey);
+    if (pending) return pending;
+
+    const request = (async () => {
+      let translation: string;
+      if (supportsSpitchTranslation(source, target)) {
+        const response = await this.callProxy(
+          "/v1/translate",
+          JSON.stringify({ text: trimmed, source, target }),
+          "application/json"
+        );
+        const result: TranslationResult = await response.json();
+        translation = result.text;
+      } else {
+        translation = await geminiService.translate(
+          trimmed,
+          translationLanguageName(source),
+          translationLanguageName(target)
+        );
+      }
+      this.rememberTranslation(cacheKey, translation);
+      return translation;
+    })();
+
+    this.pendingTranslations.set(cacheKey, request);
+    try {
+      return await request;
+    } finally {
+      this.pendingTranslations.delete(cacheKey);
+    }
+  }
+
+  private loadTranslations(): Map<string, string> {
+    if (!this.translations) {
+      try {
+        const raw = localStorage.getItem(STORAGE_KEYS.TRANSLATIONS);
+        this.translations = new Map(raw ? JSON.parse(raw) : []);
+      } catch (error) {
+        console.error("Failed to read translation cache:", error);
+        this.translations = new Map();
+      }
+    }
+    return this.translations;
+  }
+
+  /**
+   * Keep the most recently used translations, oldest dropped first
+   */
+  private rememberTranslation(cacheKey: string, translation: string) {
+    const translations = this.loadTranslations();
+    translations.delete(cacheKey);
+    translations.set(cacheKey, translation);
+    while (translations.size > MAX_CACHED_TRANSLATIONS) {
+      const oldest = translations.keys().next().value;
+      if (oldest === undefined) break;
+      translations.delete(oldest);
+    }
+
+    try {
+      localStorage.setItem(STORAGE_KEYS.TRANSLATIONS, JSON.stringify([...translations]));
+    } catch (error) {
+      console.warn("Failed to save translation cache:", error);
+    }
+  }
+
   /**
    * Transcribe audio to text
    */
@@ -359,21 +776,7 @@ class SpitchService {
       formData.append("language", language);
       formData.append("model", "legacy");
 
-      const response = await fetch(
-        `${this.proxyUrl}?endpoint=/v1/transcriptions`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${supabaseAnonKey}`,
-          },
-          body: formData,
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("Transcription failed");
-      }
-
+      const response = await this.callProxy("/v1/transcriptions", formData);
       const result: TranscriptionResult = await response.json();
       return result.text;
     } catch (error) {
@@ -382,6 +785,13 @@ class SpitchService {
     }
   }
 
+  /**
+   * Get the voice used when none is chosen explicitly
+   */
+  getDefaultVoice(language: "yo" | "ig" | "ha" | "en"): string {
+    return VOICE_MAPPING[language].default;
+  }
+
   /**
    * Get available voices for a language
    */
@@ -410,25 +820,118 @@ class SpitchService {
     return voiceList;
   }
 
-  // --- Helper methods (unchanged) ---
-  private calculatePronunciationScore(transcribed: string, expected: string) {
-    const transcribedWords = transcribed.toLowerCase().split(/\s+/);
-    const expectedWords = expected.toLowerCase().split(/\s+/);
+  // --- Helper methods ---
+  private alignTranscription(transcribed: string, expected: string) {
+    return alignWords(
+      tokenizeWords(expected),
+      tokenizeWords(transcribed),
+      (expectedWord, spokenWord) =>
+        this.wordsMatch(
+          this.normalizeWord(spokenWord),
+          this.normalizeWord(expectedWord)
+        )
+    );
+  }
 
-    let matchCount = 0;
-    const maxLength = Math.max(transcribedWords.length, expectedWords.length);
+  /**
+   * Compare the tones of every segmentally-correct word, one
+   * tone-bearing unit at a time. Returns undefined when the expected
+   * text carries no tone marks to compare against.
+   */
+  private async analyzeTones(
+    transcribed: string,
+    alignment: WordAlignment[],
+    language: "yo" | "ig"
+  ): Promise<ToneAnalysis | undefined> {
+    if (!hasToneMarks(alignment.map((entry) => entry.expected ?? "").join(" "))) {
+      return undefined;
+    }
 
-    for (
-      let i = 0;
-      i < Math.min(transcribedWords.length, expectedWords.length);
-      i++
-    ) {
-      if (this.wordsMatch(transcribedWords[i], expectedWords[i])) {
-        matchCount++;
-      }
+    // Transcripts often come back without tone marks; restore them first
+    const markedText = hasToneMarks(transcribed)
+      ? transcribed
+      : await this.addToneMarks(transcribed, language);
+    // Nothing to read tones from (Igbo can't be restored, and restoring
+    // can fail); the default tones would flag errors that aren't there
+    if (!hasToneMarks(markedText)) return undefined;
+    const markedWords = tokenizeWords(markedText);
+
+    const errors: ToneError[] = [];
+    let syllablesChecked = 0;
+
+    alignment.forEach((entry) => {
+      if (entry.operation !== "match" || entry.actualIndex === undefined) return;
+
+      const expectedWord = entry.expected!;
+      if (!hasToneMarks(expectedWord)) return;
+
+      const expectedUnits = extractToneUnits(this.normalizeWord(expectedWord), language);
+      const actualUnits = extractToneUnits(
+        this.normalizeWord(markedWords[entry.actualIndex] ?? entry.actual!),
+        language
+      );
+
+      // Near-miss spellings can change the syllable count; skip those
+      if (expectedUnits.length !== actualUnits.length) return;
+
+      // A bare syllable means mid tone only in a marked Yoruba word;
+      // otherwise it's a tone nobody wrote down
+      const trustsUnmarked = language === "yo" && actualUnits.some((unit) => unit.marked);
+
+      expectedUnits.forEach((unit, index) => {
+        if (!actualUnits[index].marked && !trustsUnmarked) return;
+
+        syllablesChecked++;
+        if (unit.tone !== actualUnits[index].tone) {
+          errors.push({
+            word: expectedWord,
+            syllableIndex: index,
+            syllable: unit.segment,
+            expectedTone: unit.tone,
+            actualTone: actualUnits[index].tone,
+          });
+        }
+      });
+    });
+
+    if (syllablesChecked === 0) return undefined;
+
+    return {
+      accuracy: 1 - errors.length / syllablesChecked,
+      syllablesChecked,
+      errors,
+    };
+  }
+
+  private generateToneFeedback(tone: ToneAnalysis) {
+    const feedback: string[] = [];
+    const firstError = tone.errors[0];
+
+    if (!firstError) {
+      feedback.push("Your tones matched the expected pattern.");
+      return feedback;
+    }
+
+    feedback.push(
+      `In "${firstError.word}", syllable ${firstError.syllableIndex + 1} ("${firstError.syllable}") should be ${firstError.expectedTone} tone, but it sounded ${firstError.actualTone}.`
+    );
+    if (tone.errors.length > 1) {
+      feedback.push(
+        `${tone.errors.length} syllables had the wrong tone - listen to the example and copy its melody.`
+      );
     }
 
-    return matchCount / maxLength;
+    return feedback;
+  }
+
+  private calculatePronunciationScore(alignment: WordAlignment[]) {
+    if (alignment.length === 0) return 0;
+    const { matches } = summarizeAlignment(alignment);
+    return matches / alignment.length;
+  }
+
+  private normalizeWord(word: string) {
+    return word.toLowerCase().replace(/[^\p{L}\p{M}\p{N}']/gu, "");
   }
 
   private wordsMatch(word1: string, word2: string) {
@@ -471,10 +974,11 @@ class SpitchService {
     return matrix[str2.length][str1.length];
   }
 
-  private calculateCompleteness(transcribed: string, expected: string) {
-    const transcribedWords = transcribed.split(/\s+/).length;
-    const expectedWords = expected.split(/\s+/).length;
-    return Math.min(transcribedWords / expectedWords, 1);
+  private calculateCompleteness(alignment: WordAlignment[]) {
+    const { matches, substitutions, deletions } = summarizeAlignment(alignment);
+    const expectedWords = matches + substitutions + deletions;
+    if (expectedWords === 0) return 0;
+    return 1 - deletions / expectedWords;
   }
 
   private extractSpecialWords(text: string) {
@@ -491,8 +995,7 @@ class SpitchService {
 
   private generateDetailedFeedback(
     score: number,
-    transcribed: string,
-    expected: string,
+    alignment: WordAlignment[],
     language: "yo" | "ig" | "ha" | "en"
   ) {
     const feedback: string[] = [];
@@ -522,29 +1025,44 @@ class SpitchService {
       feedback.push(
         "Try listening to the example again and mimic the pronunciation closely."
       );
-      const transcribedWords = transcribed.toLowerCase().split(/\s+/);
-      const expectedWords = expected.toLowerCase().split(/\s+/);
-      for (let i = 0; i < expectedWords.length; i++) {
-        if (
-          !transcribedWords[i] ||
-          !this.wordsMatch(transcribedWords[i], expectedWords[i])
-        ) {
-          feedback.push(
-            `Pay special attention to pronouncing "${expectedWords[i]}"`
-          );
-          break;
-        }
+      const firstMiss = alignment.find(
+        (entry) =>
+          entry.operation === "deletion" || entry.operation === "substitution"
+      );
+      if (firstMiss?.operation === "deletion") {
+        feedback.push(`It sounds like you skipped "${firstMiss.expected}"`);
+      } else if (firstMiss) {
+        feedback.push(
+          `Pay special attention to pronouncing "${firstMiss.expected}"`
+        );
+      }
+      if (alignment.some((entry) => entry.operation === "insertion")) {
+        feedback.push("Try not to add extra words to the phrase.");
       }
     }
 
     return feedback;
   }
 
-  clearCache() {
+  /**
+   * Clear in-memory and downloaded (IndexedDB) audio
+   */
+  async clearCache() {
     this.audioCache.clear();
+    await audioCache.clear();
   }
 }
 
 // Export singleton instance
 export const spitchService = new SpitchService();
-export type { PronunciationResult, ToneMarkResult, TranscriptionResult };
\ No newline at end of file
+export { PronunciationError, SpitchError, SpitchQuotaError };
+export type {
+  PronunciationErrorReason,
+  SpitchErrorCode,
+  TranslationLanguage,
+  PronunciationResult,
+  ToneAnalysis,
+  ToneError,
+  ToneMarkResult,
+  TranscriptionResult,
+};
\ No newline at end of file
@@ -0,0 +1,128 @@
+/**
+ * Streak Service
+ * Streaks are kept on the server against the learner's local calendar
+ * day (from the IANA timezone on their profile). Any earned reward
+ * counts as activity; missed days are covered by streak freezes
+ * bought with cowries.
+ */
+
+import { supabase } from '../lib/supabase';
+
+export const STREAK_FREEZE_PRICE = 50;
+export const MAX_STREAK_FREEZES = 2;
+
+export interface StreakStatus {
+  currentStreak: number;
+  longestStreak: number;
+  streakFreezes: number;
+  lastActivityDate: string | null;
+  today: string; // YYYY-MM-DD in the learner's timezone
+  timezone: string;
+  activeToday: boolean;
+}
+
+export interface DailyActivity {
+  date: string; // YYYY-MM-DD in the learner's timezone
+  xp: number;
+  events: number;
+  freezeUsed: boolean;
+}
+
+export interface FreezePurchase {
+  purchased: boolean;
+  reason?: 'duplicate' | 'limit_reached' | 'insufficient_cowries';
+  streakFreezes?: number;
+  totalCowries?: number;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+};
+
+class StreakService {
+  /**
+   * The browser's IANA timezone, e.g. "Africa/Lagos"
+   */
+  detectTimezone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  }
+
+  /**
+   * Keep the profile's timezone in step with the device, so day
+   * boundaries follow the learner
+   */
+  async syncTimezone(userId: string): Promise<void> {
+    const timezone = this.detectTimezone();
+    const { error } = await supabase
+      .from('profiles')
+      .update({ timezone })
+      .eq('id', userId)
+      .neq('timezone', timezone);
+
+    if (error) {
+      console.error('Failed to update timezone:', error);
+    }
+  }
+
+  async getStreak(): Promise<StreakStatus> {
+    const { data, error } = await supabase.rpc('get_streak');
+    if (error) throw error;
+
+    return {
+      currentStreak: data?.currentStreak || 0,
+      longestStreak: data?.longestStreak || 0,
+      streakFreezes: data?.streakFreezes || 0,
+      lastActivityDate: data?.lastActivityDate || null,
+      today: data?.today,
+      timezone: data?.timezone || 'UTC',
+      activeToday: Boolean(data?.activeToday)
+    };
+  }
+
+  /**
+   * Per-day activity from `from` (inclusive) onwards, oldest first
+   */
+  async getActivityHistory(userId: string, from: string): Promise<DailyActivity[]> {
+    const { data, error } = await supabase
+      .from('daily_activity')
+      .select('activity_date, xp, events, freeze_used')
+      .eq('user_id', userId)
+      .gte('activity_date', from)
+      .order('activity_date');
+
+    if (error) {
+      console.error('Error fetching activity history:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      date: row.activity_date,
+      xp: row.xp || 0,
+      events: row.events || 0,
+      freezeUsed: Boolean(row.freeze_used)
+    }));
+  }
+
+  /**
+   * Spend cowries on a streak freeze
+   */
+  async purchaseFreeze(): Promise<FreezePurchase> {
+    const { data, error } = await supabase.rpc('purchase_streak_freeze', {
+      p_idempotency_key: crypto.randomUUID()
+    });
+    if (error) throw error;
+
+    return {
+      purchased: Boolean(data?.purchased),
+      reason: data?.reason,
+      streakFreezes: data?.streakFreezes,
+      totalCowries: data?.totalCowries
+    };
+  }
+}
+
+export const streakService = new StreakService();
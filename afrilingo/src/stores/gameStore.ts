@@ -2,151 +2,184 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { supabase } from '../lib/supabase';
 import { showToast } from '../utils/toast';
+import { rewardService, type RewardGrant, type RewardSource } from '../services/reward.service';
+import { streakService, type FreezePurchase } from '../services/streak.service';
+import { achievementService } from '../services/achievement.service';
+
+const XP_PER_LEVEL = 100;
+
+const levelForXP = (xp: number) => Math.floor(xp / XP_PER_LEVEL) + 1;
 
 interface GameState {
+  // Everything here mirrors server state: XP and cowries come from the
+  // reward ledger, streaks from the streak engine and achievements
+  // from the server-side achievement evaluator
   xp: number;
   cowrieShells: number;
   streakDays: number;
+  longestStreak: number;
+  streakFreezes: number;
   lastActivityDate: string | null;
   level: number;
   achievements: string[];
-  
+
   // Actions
-  addXP: (amount: number) => Promise<void>;
-  addCowries: (amount: number) => Promise<void>;
-  updateStreak: () => Promise<void>;
+  refresh: (announce?: boolean) => Promise<void>;
+  grantReward: (source: RewardSource, sourceId: string, amount?: number) => Promise<RewardGrant | null>;
+  updateStreak: (announce?: boolean) => Promise<void>;
+  purchaseStreakFreeze: () => Promise<FreezePurchase | null>;
   checkAchievements: () => Promise<void>;
-  syncWithDatabase: () => Promise<void>;
+  exploreCulturalItem: (itemKey: string, language: string) => Promise<void>;
 }
 
 export const useGameStore = create<GameState>()(
   persist(
-    (set, get) => ({
-      xp: 0,
-      cowrieShells: 0,
-      streakDays: 0,
-      lastActivityDate: null,
-      level: 1,
-      achievements: [],
-
-      addXP: async (amount) => {
-        const newXP = get().xp + amount;
-        const newLevel = Math.floor(newXP / 100) + 1; // 100 XP per level
-        
-        set({ 
-          xp: newXP,
-          level: newLevel 
-        });
-
-        // Check for level up
-        if (newLevel > get().level) {
+    (set, get) => {
+      // Move the projection to new server totals, announcing any gains
+      const applyTotals = (totalXp: number, totalCowries: number, announce: boolean) => {
+        const { cowrieShells, level } = get();
+        const newLevel = levelForXP(totalXp);
+
+        set({ xp: totalXp, cowrieShells: totalCowries, level: newLevel });
+
+        if (!announce) return;
+        if (newLevel > level) {
           showToast.levelUp(`Level Up! You're now level ${newLevel}!`);
-          await get().addCowries(10); // Bonus cowries for leveling up
         }
+        if (totalCowries > cowrieShells) {
+          showToast.success(`+${totalCowries - cowrieShells} Cowrie Shells earned!`);
+        }
+      };
 
-        await get().syncWithDatabase();
-        await get().checkAchievements();
-      },
-
-      addCowries: async (amount) => {
-        set((state) => ({ 
-          cowrieShells: state.cowrieShells + amount 
-        }));
-        
-        if (amount > 0) {
-          showToast.success(`+${amount} Cowrie Shells earned!`);
+      // Toast achievements unlocked since we last looked
+      const announceUnlocks = async (ids: string[]) => {
+        if (ids.length === 0) return;
+        try {
+          const definitions = await achievementService.getAchievements();
+          for (const id of ids) {
+            const achievement = definitions.find(a => a.id === id);
+            if (achievement) {
+              showToast.achievement(`${achievement.icon} Achievement Unlocked: ${achievement.name}!`);
+            }
+          }
+        } catch (error) {
+          console.error('Failed to load achievements:', error);
         }
-        
-        await get().syncWithDatabase();
-      },
-
-      updateStreak: async () => {
-        const today = new Date().toISOString().split('T')[0];
-        const lastActivity = get().lastActivityDate;
-        
-        if (!lastActivity || lastActivity !== today) {
-          const yesterday = new Date();
-          yesterday.setDate(yesterday.getDate() - 1);
-          const yesterdayStr = yesterday.toISOString().split('T')[0];
-          
-          if (lastActivity === yesterdayStr) {
-            // Continue streak
-            set((state) => ({ 
-              streakDays: state.streakDays + 1,
-              lastActivityDate: today 
-            }));
-            
-            // Streak bonuses
-            const streak = get().streakDays;
-            if (streak % 7 === 0) {
-              await get().addCowries(5);
-              showToast.streak(`${streak} day streak! Bonus cowries earned!`);
+      };
+
+      return {
+        xp: 0,
+        cowrieShells: 0,
+        streakDays: 0,
+        longestStreak: 0,
+        streakFreezes: 0,
+        lastActivityDate: null,
+        level: 1,
+        achievements: [],
+
+        refresh: async (announce = false) => {
+          const { data: { user } } = await supabase.auth.getUser();
+          if (!user) return;
+
+          try {
+            await streakService.syncTimezone(user.id);
+            const [totals, unlocks] = await Promise.all([
+              rewardService.getTotals(user.id),
+              achievementService.getUserAchievements(user.id)
+            ]);
+            applyTotals(totals.totalXp, totals.totalCowries, announce);
+
+            const achievements = unlocks.map(unlock => unlock.achievementId);
+            const known = get().achievements;
+            set({ achievements });
+            if (announce) {
+              await announceUnlocks(achievements.filter(id => !known.includes(id)));
+            }
+          } catch (error) {
+            console.error('Failed to load rewards:', error);
+          }
+
+          await get().updateStreak(announce);
+        },
+
+        grantReward: async (source, sourceId, amount) => {
+          try {
+            const grant = await rewardService.grantOrQueue(source, sourceId, amount);
+            if (grant?.granted && grant.totalXp !== undefined && grant.totalCowries !== undefined) {
+              applyTotals(grant.totalXp, grant.totalCowries, true);
             }
-          } else {
-            // Reset streak
-            set({ 
-              streakDays: 1,
-              lastActivityDate: today 
+            return grant;
+          } catch (error) {
+            console.error(`Failed to grant ${source} reward:`, error);
+            return null;
+          }
+        },
+
+        updateStreak: async (announce = true) => {
+          const previous = get().streakDays;
+
+          try {
+            const streak = await streakService.getStreak();
+            set({
+              streakDays: streak.currentStreak,
+              longestStreak: streak.longestStreak,
+              streakFreezes: streak.streakFreezes,
+              lastActivityDate: streak.lastActivityDate
             });
+
+            // The server adds bonus cowries on every 7th day
+            if (announce && streak.currentStreak > previous && streak.currentStreak % 7 === 0) {
+              showToast.streak(`${streak.currentStreak} day streak! Bonus cowries earned!`);
+            }
+          } catch (error) {
+            console.error('Failed to load streak:', error);
           }
-        }
-        
-        await get().syncWithDatabase();
-      },
-
-      checkAchievements: async () => {
-        const state = get();
-        const newAchievements: string[] = [];
-
-        // Check various achievements
-        if (state.xp >= 100 && !state.achievements.includes('first_100_xp')) {
-          newAchievements.push('first_100_xp');
-          showToast.achievement('Achievement Unlocked: First 100 XP!');
-          await get().addCowries(20);
-        }
+        },
 
-        if (state.streakDays >= 7 && !state.achievements.includes('week_streak')) {
-          newAchievements.push('week_streak');
-          showToast.achievement('Achievement Unlocked: 7 Day Streak!');
-          await get().addCowries(30);
-        }
+        purchaseStreakFreeze: async () => {
+          try {
+            const purchase = await streakService.purchaseFreeze();
+            if (purchase.purchased) {
+              set({
+                streakFreezes: purchase.streakFreezes ?? get().streakFreezes + 1,
+                cowrieShells: purchase.totalCowries ?? get().cowrieShells
+              });
+            }
+            return purchase;
+          } catch (error) {
+            console.error('Failed to buy streak freeze:', error);
+            return null;
+          }
+        },
 
-        if (state.level >= 5 && !state.achievements.includes('level_5')) {
-          newAchievements.push('level_5');
-          showToast.achievement('Achievement Unlocked: Reached Level 5!');
-          await get().addCowries(50);
-        }
+        checkAchievements: async () => {
+          try {
+            const unlocked = await achievementService.evaluate();
+            if (unlocked.length > 0) {
+              await announceUnlocks(unlocked);
+              // Unlocks carry rewards, so pick up the new totals too
+              await get().refresh();
+            }
+          } catch (error) {
+            console.error('Failed to check achievements:', error);
+          }
+        },
 
-        if (newAchievements.length > 0) {
-          set((state) => ({
-            achievements: [...state.achievements, ...newAchievements]
-          }));
-          await get().syncWithDatabase();
-        }
-      },
-
-      syncWithDatabase: async () => {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) return;
-
-        const state = get();
-        const { error } = await supabase
-          .from('profiles')
-          .update({
-            total_xp: state.xp,
-            cowrie_shells: state.cowrieShells,
-            streak_days: state.streakDays,
-            last_activity: state.lastActivityDate
-          })
-          .eq('id', user.id);
-
-        if (error) {
-          console.error('Failed to sync game state:', error);
+        exploreCulturalItem: async (itemKey, language) => {
+          try {
+            const unlocked = await achievementService.recordCulturalExploration(itemKey, language);
+            if (unlocked.length > 0) {
+              await announceUnlocks(unlocked);
+              await get().refresh();
+            }
+          } catch (error) {
+            console.error('Failed to record cultural exploration:', error);
+          }
         }
-      }
-    }),
+      };
+    },
     {
       name: 'afrilingo-game-state',
     }
   )
-);
\ No newline at end of file
+);
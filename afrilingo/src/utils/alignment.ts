@@ -0,0 +1,129 @@
+/**
+ * Word-level sequence alignment
+ * Aligns a spoken/typed word sequence against an expected one using
+ * edit distance, so a single inserted or dropped word doesn't shift
+ * every later word out of place.
+ */
+
+export type AlignmentOperation = 'match' | 'substitution' | 'insertion' | 'deletion';
+
+export interface WordAlignment {
+  operation: AlignmentOperation;
+  expected?: string; // Absent for insertions
+  actual?: string;   // Absent for deletions
+  expectedIndex?: number;
+  actualIndex?: number;
+}
+
+export interface AlignmentSummary {
+  matches: number;
+  substitutions: number;
+  insertions: number;
+  deletions: number;
+}
+
+export type WordComparator = (expected: string, actual: string) => boolean;
+
+const defaultComparator: WordComparator = (expected, actual) => expected === actual;
+
+/**
+ * Split a phrase into words, keeping the original spelling for display
+ */
+export const tokenizeWords = (text: string): string[] => {
+  return text.trim().split(/\s+/).filter(word => word.length > 0);
+};
+
+/**
+ * Align two word sequences with unit-cost edit distance and return
+ * one entry per aligned position, in order.
+ */
+export const alignWords = (
+  expected: string[],
+  actual: string[],
+  isMatch: WordComparator = defaultComparator
+): WordAlignment[] => {
+  const rows = expected.length;
+  const cols = actual.length;
+
+  // cost[i][j] = edit distance between expected[0..i) and actual[0..j)
+  const cost: number[][] = [];
+  for (let i = 0; i <= rows; i++) {
+    cost[i] = [i];
+  }
+  for (let j = 0; j <= cols; j++) {
+    cost[0][j] = j;
+  }
+
+  for (let i = 1; i <= rows; i++) {
+    for (let j = 1; j <= cols; j++) {
+      const diagonal = cost[i - 1][j - 1] + (isMatch(expected[i - 1], actual[j - 1]) ? 0 : 1);
+      cost[i][j] = Math.min(
+        diagonal,
+        cost[i - 1][j] + 1, // Deletion: expected word not spoken
+        cost[i][j - 1] + 1  // Insertion: extra word spoken
+      );
+    }
+  }
+
+  // Trace back from the bottom-right corner, preferring diagonal moves
+  const alignment: WordAlignment[] = [];
+  let i = rows;
+  let j = cols;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const matched = isMatch(expected[i - 1], actual[j - 1]);
+      if (cost[i][j] === cost[i - 1][j - 1] + (matched ? 0 : 1)) {
+        alignment.push({
+          operation: matched ? 'match' : 'substitution',
+          expected: expected[i - 1],
+          actual: actual[j - 1],
+          expectedIndex: i - 1,
+          actualIndex: j - 1
+        });
+        i--;
+        j--;
+        continue;
+      }
+    }
+
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      alignment.push({
+        operation: 'deletion',
+        expected: expected[i - 1],
+        expectedIndex: i - 1
+      });
+      i--;
+    } else {
+      alignment.push({
+        operation: 'insertion',
+        actual: actual[j - 1],
+        actualIndex: j - 1
+      });
+      j--;
+    }
+  }
+
+  return alignment.reverse();
+};
+
+/**
+ * Count each kind of operation in an alignment
+ */
+export const summarizeAlignment = (alignment: WordAlignment[]): AlignmentSummary => {
+  const summary: AlignmentSummary = {
+    matches: 0,
+    substitutions: 0,
+    insertions: 0,
+    deletions: 0
+  };
+
+  alignment.forEach(entry => {
+    if (entry.operation === 'match') summary.matches++;
+    else if (entry.operation === 'substitution') summary.substitutions++;
+    else if (entry.operation === 'insertion') summary.insertions++;
+    else summary.deletions++;
+  });
+
+  return summary;
+};
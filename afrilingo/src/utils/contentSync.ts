@@ -0,0 +1,253 @@
+/**
+ * Content sync planning
+ * Compares the course files with what is in the database and works out
+ * the changes that make the database match: rows are recognised by
+ * their stable content ID, so running a sync twice changes nothing the
+ * second time. Rows written before content IDs existed are adopted by
+ * lesson title, exercise order or word the first time they are seen;
+ * anything left over in a synced language is deleted.
+ */
+
+import type { Exercise, Language, Lesson, Vocabulary } from '../services/lessonService';
+import type { CourseExercise, CourseFile, CourseLesson, CourseVocabulary } from './courseFormat';
+import { normalizeAnswer } from './grading';
+
+export type SyncTable = 'lessons' | 'exercises' | 'vocabulary';
+
+export interface SyncChange {
+  table: SyncTable;
+  action: 'insert' | 'update' | 'delete';
+  contentId: string | null; // null for untracked rows being deleted
+  label: string;
+  fields?: string[];        // Changed fields, for updates
+  adopted?: boolean;        // An untracked row is taking this content ID
+}
+
+/**
+ * The rows of the synced languages as they are in the database
+ */
+export interface ContentSnapshot {
+  languages: Array<Pick<Language, 'id' | 'code'>>;
+  lessons: Lesson[];
+  exercises: Exercise[];
+  vocabulary: Vocabulary[];
+}
+
+/**
+ * What apply_content_sync() receives. Lesson, exercise and vocabulary
+ * rows are upserted by content_id; exercises and vocabulary name their
+ * lesson by content ID since new lessons have no row id yet.
+ */
+export interface SyncPayload {
+  adopt: Record<SyncTable, Array<{ id: string; content_id: string }>>;
+  delete: Record<SyncTable, string[]>;
+  lessons: Array<Record<string, unknown>>;
+  exercises: Array<Record<string, unknown>>;
+  vocabulary: Array<Record<string, unknown>>;
+  prune_progress: boolean;
+}
+
+export interface SyncPlan {
+  changes: SyncChange[];
+  payload: SyncPayload;
+}
+
+type Row = Record<string, unknown>;
+
+// Columns that don't come from the course files
+const LINK_FIELDS = ['content_id', 'lesson_content_id'];
+
+// JSON with sorted keys, so jsonb read back from Postgres compares equal
+const canonical = (value: unknown): string =>
+  JSON.stringify(value ?? null, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+      : item
+  );
+
+const changedFields = (existing: Row, desired: Row) =>
+  Object.keys(desired).filter(field =>
+    !LINK_FIELDS.includes(field) && canonical(existing[field]) !== canonical(desired[field])
+  );
+
+const lessonRow = (lesson: CourseLesson, languageId: string): Row => ({
+  content_id: lesson.id,
+  language_id: languageId,
+  title: lesson.title,
+  description: lesson.description,
+  lesson_order: lesson.lesson_order,
+  lesson_type: lesson.lesson_type,
+  difficulty: lesson.difficulty ?? 1,
+  estimated_time: lesson.estimated_time ?? 10,
+  is_premium: lesson.is_premium ?? false,
+  xp_reward: lesson.xp_reward ?? 20,
+  cowrie_reward: lesson.cowrie_reward ?? 5,
+  cultural_context: lesson.cultural_context ?? null
+});
+
+const exerciseRow = (exercise: CourseExercise, lessonId: string): Row => ({
+  content_id: exercise.id,
+  lesson_content_id: lessonId,
+  exercise_order: exercise.exercise_order,
+  exercise_type: exercise.exercise_type,
+  question: exercise.question,
+  correct_answer: exercise.correct_answer,
+  accepted_answers: exercise.accepted_answers ?? [],
+  options: exercise.options ?? null,
+  explanation: exercise.explanation ?? null,
+  points: exercise.points ?? 10,
+  tone_strict: exercise.tone_strict ?? false
+});
+
+const vocabularyRow = (item: CourseVocabulary, lessonId: string): Row => ({
+  content_id: item.id,
+  lesson_content_id: lessonId,
+  word: item.word,
+  translation: item.translation,
+  pronunciation: item.pronunciation ?? null,
+  display_order: item.display_order
+});
+
+/**
+ * Work out the changes that bring the snapshot in line with the course
+ * files. Only languages with at least one course file are touched.
+ */
+export const planContentSync = (courses: CourseFile[], snapshot: ContentSnapshot): SyncPlan => {
+  const changes: SyncChange[] = [];
+  const payload: SyncPayload = {
+    adopt: { lessons: [], exercises: [], vocabulary: [] },
+    delete: { lessons: [], exercises: [], vocabulary: [] },
+    lessons: [],
+    exercises: [],
+    vocabulary: [],
+    prune_progress: false
+  };
+
+  const byAge = <T extends { created_at?: string }>(rows: T[]) =>
+    [...rows].sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+  const claimed = new Set<string>();
+
+  /**
+   * Find the row for a content ID, or adopt the oldest untracked row
+   * that looks like it, and queue an insert or update as needed
+   */
+  const reconcile = <T extends { id: string; content_id?: string | null }>(
+    table: SyncTable,
+    rows: T[],
+    desired: Row,
+    label: string,
+    looksLike: (row: T) => boolean,
+    extraChanges: (row: T) => string[] = () => []
+  ): T | undefined => {
+    const contentId = desired.content_id as string;
+    let existing = rows.find(row => row.content_id === contentId);
+    let adopted = false;
+    if (!existing) {
+      existing = byAge(rows as Array<T & { created_at?: string }>)
+        .find(row => !row.content_id && !claimed.has(row.id) && looksLike(row));
+      adopted = !!existing;
+    }
+
+    if (!existing) {
+      changes.push({ table, action: 'insert', contentId, label });
+      payload[table].push(desired);
+      return undefined;
+    }
+
+    claimed.add(existing.id);
+    const fields = [...changedFields(existing as unknown as Row, desired), ...extraChanges(existing)];
+    if (adopted) payload.adopt[table].push({ id: existing.id, content_id: contentId });
+    if (fields.length > 0 || adopted) {
+      changes.push({ table, action: 'update', contentId, label, fields, adopted });
+      payload[table].push(desired);
+    }
+    return existing;
+  };
+
+  const syncedLanguages = snapshot.languages.filter(language =>
+    courses.some(course => course.language === language.code)
+  );
+  const languageIds = new Set(syncedLanguages.map(language => language.id));
+  const lessonsInScope = snapshot.lessons.filter(lesson => languageIds.has(lesson.language_id));
+  const lessonIdsInScope = new Set(lessonsInScope.map(lesson => lesson.id));
+
+  courses.forEach(course => {
+    const language = syncedLanguages.find(l => l.code === course.language);
+    if (!language) return;
+
+    course.lessons.forEach(lesson => {
+      const existingLesson = reconcile(
+        'lessons',
+        lessonsInScope,
+        lessonRow(lesson, language.id),
+        lesson.title,
+        row => row.language_id === language.id && normalizeAnswer(row.title) === normalizeAnswer(lesson.title)
+      );
+
+      // Untracked exercises and words are only adopted from the lesson they were in
+      const movedFrom = (row: { lesson_id: string }) =>
+        existingLesson && row.lesson_id === existingLesson.id ? [] : ['lesson_id'];
+      const inLesson = (row: { lesson_id: string }) => !!existingLesson && row.lesson_id === existingLesson.id;
+
+      lesson.exercises.forEach(exercise => {
+        reconcile(
+          'exercises',
+          snapshot.exercises,
+          exerciseRow(exercise, lesson.id),
+          `Exercise ${exercise.exercise_order} of ${lesson.title}`,
+          row => inLesson(row) && row.exercise_order === exercise.exercise_order,
+          movedFrom
+        );
+      });
+
+      lesson.vocabulary.forEach(item => {
+        reconcile(
+          'vocabulary',
+          snapshot.vocabulary,
+          vocabularyRow(item, lesson.id),
+          item.word,
+          row => inLesson(row) && normalizeAnswer(row.word) === normalizeAnswer(item.word),
+          movedFrom
+        );
+      });
+    });
+  });
+
+  lessonsInScope.filter(row => !claimed.has(row.id)).forEach(row => {
+    changes.push({ table: 'lessons', action: 'delete', contentId: row.content_id || null, label: row.title });
+    payload.delete.lessons.push(row.id);
+  });
+
+  const deleteLeftovers = <T extends { id: string; lesson_id: string; content_id?: string | null }>(
+    table: 'exercises' | 'vocabulary',
+    rows: T[],
+    label: (row: T) => string
+  ) => {
+    rows
+      .filter(row => lessonIdsInScope.has(row.lesson_id) && !claimed.has(row.id))
+      .forEach(row => {
+        changes.push({ table, action: 'delete', contentId: row.content_id || null, label: label(row) });
+        payload.delete[table].push(row.id);
+      });
+  };
+
+  const lessonTitle = (lessonId: string) => snapshot.lessons.find(lesson => lesson.id === lessonId)?.title;
+  deleteLeftovers('exercises', snapshot.exercises, row => `Exercise ${row.exercise_order} of ${lessonTitle(row.lesson_id)}`);
+  deleteLeftovers('vocabulary', snapshot.vocabulary, row => row.word);
+
+  return { changes, payload };
+};
+
+/**
+ * Counts of each kind of change, per table
+ */
+export const summarizePlan = (plan: SyncPlan) =>
+  (['lessons', 'exercises', 'vocabulary'] as SyncTable[]).map(table => {
+    const rows = plan.changes.filter(change => change.table === table);
+    return {
+      table,
+      inserts: rows.filter(change => change.action === 'insert').length,
+      updates: rows.filter(change => change.action === 'update').length,
+      deletes: rows.filter(change => change.action === 'delete').length
+    };
+  });
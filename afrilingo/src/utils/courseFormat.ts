@@ -0,0 +1,389 @@
+/**
+ * Course file format
+ * Lessons are authored as JSON files, one per language unit, under
+ * content/<language>/. This module defines the format and checks a
+ * parsed file against it; problems are reported by JSON Pointer so the
+ * importer can map them back to a line in the file.
+ *
+ * Every lesson, vocabulary item and exercise carries an "id": a stable
+ * content ID that the sync uses to recognise rows across edits. Once
+ * published an ID must never change or be reused; renaming one deletes
+ * the row and creates a new one.
+ */
+
+import type { Exercise, Lesson, Vocabulary } from '../services/lessonService';
+import { normalizeAnswer, stripToneMarks } from './grading';
+import { hasToneMarks } from './tones';
+import { pointerTo } from './jsonSource';
+
+export const COURSE_FORMAT_VERSION = 2;
+
+export const COURSE_LANGUAGES = ['yo', 'ig', 'ha'] as const;
+export type CourseLanguage = typeof COURSE_LANGUAGES[number];
+
+export const LESSON_TYPES: Lesson['lesson_type'][] = ['vocabulary', 'grammar', 'conversation', 'culture', 'pronunciation'];
+
+export const EXERCISE_TYPES: Exercise['exercise_type'][] = [
+  'multiple_choice',
+  'translation',
+  'pronunciation',
+  'fill_blank',
+  'conversation',
+  'dictation',
+  'audio_match',
+  'tone_identification',
+  'word_order'
+];
+
+// Exercise types answered by picking one of the options
+const CHOICE_TYPES: Exercise['exercise_type'][] = ['multiple_choice', 'audio_match', 'tone_identification'];
+
+// Lowercase words joined by hyphens, e.g. "yo-greetings-ex1"
+export const CONTENT_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export type CourseVocabulary = { id: string } & Pick<Vocabulary, 'word' | 'translation' | 'pronunciation' | 'display_order'>;
+
+export type CourseExercise = { id: string } & Pick<
+  Exercise,
+  | 'exercise_order'
+  | 'exercise_type'
+  | 'question'
+  | 'correct_answer'
+  | 'accepted_answers'
+  | 'options'
+  | 'explanation'
+  | 'points'
+  | 'tone_strict'
+>;
+
+export interface CourseLesson {
+  id: string;
+  title: string;
+  description: string;
+  lesson_order: number;
+  lesson_type: Lesson['lesson_type'];
+  difficulty?: number;
+  estimated_time?: number; // Minutes
+  is_premium?: boolean;
+  xp_reward?: number;
+  cowrie_reward?: number;
+  cultural_context?: unknown;
+  vocabulary: CourseVocabulary[];
+  exercises: CourseExercise[];
+}
+
+export interface CourseFile {
+  $schema?: string;
+  formatVersion: number;
+  language: CourseLanguage;
+  unit: string;
+  lessons: CourseLesson[];
+}
+
+export interface CourseIssue {
+  pointer: string;
+  message: string;
+}
+
+type Json = Record<string, unknown>;
+
+interface FieldSpec {
+  type: 'id' | 'string' | 'integer' | 'boolean' | 'string[]' | 'any';
+  required?: boolean;
+  min?: number;
+  max?: number;
+}
+
+const FILE_FIELDS: Record<string, FieldSpec> = {
+  $schema: { type: 'string' },
+  formatVersion: { type: 'integer', required: true },
+  language: { type: 'string', required: true },
+  unit: { type: 'string', required: true },
+  lessons: { type: 'any', required: true }
+};
+
+const LESSON_FIELDS: Record<string, FieldSpec> = {
+  id: { type: 'id', required: true },
+  title: { type: 'string', required: true },
+  description: { type: 'string', required: true },
+  lesson_order: { type: 'integer', required: true, min: 1 },
+  lesson_type: { type: 'string', required: true },
+  difficulty: { type: 'integer', min: 1, max: 5 },
+  estimated_time: { type: 'integer', min: 1 },
+  is_premium: { type: 'boolean' },
+  xp_reward: { type: 'integer', min: 0 },
+  cowrie_reward: { type: 'integer', min: 0 },
+  cultural_context: { type: 'any' },
+  vocabulary: { type: 'any', required: true },
+  exercises: { type: 'any', required: true }
+};
+
+const VOCABULARY_FIELDS: Record<string, FieldSpec> = {
+  id: { type: 'id', required: true },
+  word: { type: 'string', required: true },
+  translation: { type: 'string', required: true },
+  pronunciation: { type: 'string' },
+  display_order: { type: 'integer', required: true, min: 1 }
+};
+
+const EXERCISE_FIELDS: Record<string, FieldSpec> = {
+  id: { type: 'id', required: true },
+  exercise_order: { type: 'integer', required: true, min: 1 },
+  exercise_type: { type: 'string', required: true },
+  question: { type: 'string', required: true },
+  correct_answer: { type: 'string', required: true },
+  accepted_answers: { type: 'string[]' },
+  options: { type: 'string[]' },
+  explanation: { type: 'string' },
+  points: { type: 'integer', min: 1 },
+  tone_strict: { type: 'boolean' }
+};
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+class IssueCollector {
+  issues: CourseIssue[] = [];
+
+  add(pointer: string, message: string) {
+    this.issues.push({ pointer, message });
+  }
+
+  /**
+   * Check an object's fields against a spec; false if it isn't an object
+   */
+  fields(value: unknown, pointer: string, specs: Record<string, FieldSpec>, what: string): value is Json {
+    if (!isObject(value)) {
+      this.add(pointer, `${what} must be an object`);
+      return false;
+    }
+
+    Object.keys(value).forEach(key => {
+      if (!(key in specs)) this.add(pointerTo(pointer, key), `Unknown field "${key}"`);
+    });
+
+    Object.entries(specs).forEach(([key, spec]) => {
+      const field = value[key];
+      const fieldPointer = pointerTo(pointer, key);
+      if (field === undefined) {
+        if (spec.required) this.add(pointer, `${what} is missing "${key}"`);
+        return;
+      }
+
+      if (spec.type === 'id' && (typeof field !== 'string' || !CONTENT_ID_PATTERN.test(field))) {
+        this.add(fieldPointer, `"${key}" must be lowercase letters and digits joined by hyphens`);
+      } else if (spec.type === 'string' && (typeof field !== 'string' || field.trim() === '')) {
+        this.add(fieldPointer, `"${key}" must be a non-empty string`);
+      } else if (spec.type === 'boolean' && typeof field !== 'boolean') {
+        this.add(fieldPointer, `"${key}" must be true or false`);
+      } else if (spec.type === 'string[]' && (!Array.isArray(field) || field.some(item => typeof item !== 'string'))) {
+        this.add(fieldPointer, `"${key}" must be a list of strings`);
+      } else if (spec.type === 'integer') {
+        if (!Number.isInteger(field)) {
+          this.add(fieldPointer, `"${key}" must be a whole number`);
+        } else if ((spec.min !== undefined && (field as number) < spec.min) ||
+                   (spec.max !== undefined && (field as number) > spec.max)) {
+          const range = spec.max !== undefined ? `${spec.min}-${spec.max}` : `at least ${spec.min}`;
+          this.add(fieldPointer, `"${key}" must be ${range}`);
+        }
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Flag repeated values of a field across a list
+   */
+  unique(items: Json[], pointer: string, key: string, what: string, normalize = (value: unknown) => value) {
+    const seen = new Map<unknown, number>();
+    items.forEach((item, index) => {
+      if (item[key] === undefined) return;
+      const value = normalize(item[key]);
+      const first = seen.get(value);
+      if (first !== undefined) {
+        this.add(pointerTo(pointerTo(pointer, index), key), `Duplicate ${what} (same as item ${first + 1})`);
+      } else {
+        seen.set(value, index);
+      }
+    });
+  }
+}
+
+// Every string in the file must already be NFC, so tone-marked text
+// compares and sorts the same wherever it ends up
+const checkNormalization = (value: unknown, pointer: string, collector: IssueCollector) => {
+  if (typeof value === 'string') {
+    if (value !== value.normalize('NFC')) {
+      collector.add(pointer, 'Text is not NFC-normalised (tone marks stored as separate characters)');
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => checkNormalization(item, pointerTo(pointer, index), collector));
+  } else if (isObject(value)) {
+    Object.entries(value).forEach(([key, item]) => checkNormalization(item, pointerTo(pointer, key), collector));
+  }
+};
+
+const validateExercise = (exercise: Json, pointer: string, collector: IssueCollector) => {
+  const type = exercise.exercise_type as Exercise['exercise_type'];
+  const answer = exercise.correct_answer;
+  const options = Array.isArray(exercise.options) ? (exercise.options as string[]) : [];
+  const accepted = Array.isArray(exercise.accepted_answers) ? (exercise.accepted_answers as string[]) : [];
+
+  if (typeof type === 'string' && !EXERCISE_TYPES.includes(type)) {
+    collector.add(pointerTo(pointer, 'exercise_type'), `Unknown exercise type "${type}"`);
+    return;
+  }
+  if (typeof answer !== 'string') return;
+
+  if (new Set(options).size !== options.length) {
+    collector.add(pointerTo(pointer, 'options'), 'Options must not repeat');
+  }
+
+  if (CHOICE_TYPES.includes(type)) {
+    if (options.length < 2) {
+      collector.add(pointer, `A ${type} exercise needs at least two options`);
+    } else if (!options.includes(answer)) {
+      collector.add(pointerTo(pointer, 'correct_answer'), 'correct_answer must be one of the options');
+    }
+    accepted.forEach((alternative, index) => {
+      if (!options.includes(alternative)) {
+        collector.add(pointerTo(pointerTo(pointer, 'accepted_answers'), index), 'Accepted answers must be among the options');
+      }
+    });
+  }
+
+  if (type === 'tone_identification') {
+    if (!hasToneMarks(answer)) {
+      collector.add(pointerTo(pointer, 'correct_answer'), 'The answer to a tone_identification exercise must carry tone marks');
+    }
+    options.forEach((option, index) => {
+      if (stripToneMarks(normalizeAnswer(option)) !== stripToneMarks(normalizeAnswer(answer))) {
+        collector.add(pointerTo(pointerTo(pointer, 'options'), index), 'Options must differ from the answer only in tone marks');
+      }
+    });
+  }
+
+  if (type === 'word_order' && options.length > 0) {
+    // Every accepted order must be buildable from the tiles
+    [answer, ...accepted].forEach((order, index) => {
+      const words = normalizeAnswer(order).split(' ');
+      const available = options.flatMap(option => normalizeAnswer(option).split(' '));
+      const missing = words.filter(word => {
+        const at = available.indexOf(word);
+        if (at === -1) return true;
+        available.splice(at, 1);
+        return false;
+      });
+      if (missing.length > 0) {
+        const field = index === 0 ? pointerTo(pointer, 'correct_answer') : pointerTo(pointerTo(pointer, 'accepted_answers'), index - 1);
+        collector.add(field, `Not every word is available as a tile: ${missing.join(', ')}`);
+      }
+    });
+  }
+};
+
+const validateLesson = (lesson: unknown, pointer: string, collector: IssueCollector) => {
+  if (!collector.fields(lesson, pointer, LESSON_FIELDS, 'A lesson')) return;
+
+  if (typeof lesson.lesson_type === 'string' && !LESSON_TYPES.includes(lesson.lesson_type as Lesson['lesson_type'])) {
+    collector.add(pointerTo(pointer, 'lesson_type'), `Unknown lesson type "${lesson.lesson_type}"`);
+  }
+
+  const vocabularyPointer = pointerTo(pointer, 'vocabulary');
+  if (lesson.vocabulary !== undefined && !Array.isArray(lesson.vocabulary)) {
+    collector.add(vocabularyPointer, '"vocabulary" must be a list');
+  } else if (Array.isArray(lesson.vocabulary)) {
+    const words = lesson.vocabulary.filter((word, index) =>
+      collector.fields(word, pointerTo(vocabularyPointer, index), VOCABULARY_FIELDS, 'A vocabulary item')
+    ) as Json[];
+    if (words.length === lesson.vocabulary.length) {
+      collector.unique(words, vocabularyPointer, 'display_order', 'display_order');
+      collector.unique(words, vocabularyPointer, 'word', 'word', value => normalizeAnswer(String(value)));
+    }
+  }
+
+  const exercisesPointer = pointerTo(pointer, 'exercises');
+  if (!Array.isArray(lesson.exercises) || lesson.exercises.length === 0) {
+    if (lesson.exercises !== undefined) collector.add(exercisesPointer, '"exercises" must be a non-empty list');
+    return;
+  }
+
+  const exercises = lesson.exercises.filter((exercise, index) =>
+    collector.fields(exercise, pointerTo(exercisesPointer, index), EXERCISE_FIELDS, 'An exercise')
+  ) as Json[];
+  if (exercises.length !== lesson.exercises.length) return;
+
+  collector.unique(exercises, exercisesPointer, 'exercise_order', 'exercise_order');
+  exercises.forEach((exercise, index) => validateExercise(exercise, pointerTo(exercisesPointer, index), collector));
+};
+
+/**
+ * Check one parsed course file. expectedLanguage is the language its
+ * directory says it belongs to.
+ */
+export const validateCourseFile = (value: unknown, expectedLanguage?: string): CourseIssue[] => {
+  const collector = new IssueCollector();
+  if (!collector.fields(value, '', FILE_FIELDS, 'A course file')) return collector.issues;
+
+  if (value.formatVersion !== undefined && value.formatVersion !== COURSE_FORMAT_VERSION) {
+    collector.add('/formatVersion', `Unsupported format version (expected ${COURSE_FORMAT_VERSION})`);
+  }
+
+  if (typeof value.language === 'string') {
+    if (!COURSE_LANGUAGES.includes(value.language as CourseLanguage)) {
+      collector.add('/language', `Unknown language "${value.language}" (expected one of ${COURSE_LANGUAGES.join(', ')})`);
+    } else if (expectedLanguage && value.language !== expectedLanguage) {
+      collector.add('/language', `File is in the "${expectedLanguage}" folder but declares language "${value.language}"`);
+    }
+  }
+
+  if (!Array.isArray(value.lessons) || value.lessons.length === 0) {
+    collector.add('/lessons', '"lessons" must be a non-empty list');
+  } else {
+    value.lessons.forEach((lesson, index) => validateLesson(lesson, pointerTo('/lessons', index), collector));
+  }
+
+  checkNormalization(value, '', collector);
+  return collector.issues;
+};
+
+/**
+ * Checks that span files: content IDs must be unique across the whole
+ * course, and lesson order and titles across all of a language's units
+ */
+export const validateCourseSet = (
+  files: Array<{ path: string; course: CourseFile }>
+): Array<CourseIssue & { path: string }> => {
+  const issues: Array<CourseIssue & { path: string }> = [];
+  const seen = new Map<string, string>();
+
+  const check = (path: string, pointer: string, key: string, message: string) => {
+    const first = seen.get(key);
+    if (first) {
+      issues.push({ path, pointer, message: `${message} (also used in ${first})` });
+    } else {
+      seen.set(key, path);
+    }
+  };
+
+  files.forEach(({ path, course }) => {
+    course.lessons.forEach((lesson, index) => {
+      const pointer = pointerTo('/lessons', index);
+      check(path, pointerTo(pointer, 'id'), `lesson:${lesson.id}`, `Duplicate lesson id "${lesson.id}"`);
+      check(path, pointerTo(pointer, 'lesson_order'), `order:${course.language}:${lesson.lesson_order}`, `Duplicate lesson_order in ${course.language}`);
+      check(path, pointerTo(pointer, 'title'), `title:${course.language}:${normalizeAnswer(lesson.title)}`, `Duplicate title in ${course.language}`);
+
+      lesson.vocabulary.forEach((item, itemIndex) => {
+        const itemPointer = pointerTo(pointerTo(pointer, 'vocabulary'), itemIndex);
+        check(path, pointerTo(itemPointer, 'id'), `vocabulary:${item.id}`, `Duplicate vocabulary id "${item.id}"`);
+      });
+      lesson.exercises.forEach((exercise, exerciseIndex) => {
+        const exercisePointer = pointerTo(pointerTo(pointer, 'exercises'), exerciseIndex);
+        check(path, pointerTo(exercisePointer, 'id'), `exercise:${exercise.id}`, `Duplicate exercise id "${exercise.id}"`);
+      });
+    });
+  });
+
+  return issues;
+};
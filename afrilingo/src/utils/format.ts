@@ -0,0 +1,24 @@
+/**
+ * Human-friendly relative time, e.g. "just now", "3 hours ago", "2 weeks ago"
+ */
+export const formatRelativeTime = (iso: string, now: Date = new Date()): string => {
+  const seconds = Math.max(0, Math.round((now.getTime() - new Date(iso).getTime()) / 1000));
+
+  const units: Array<[string, number]> = [
+    ['year', 365 * 24 * 3600],
+    ['month', 30 * 24 * 3600],
+    ['week', 7 * 24 * 3600],
+    ['day', 24 * 3600],
+    ['hour', 3600],
+    ['minute', 60]
+  ];
+
+  for (const [unit, size] of units) {
+    const count = Math.floor(seconds / size);
+    if (count >= 1) {
+      return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+    }
+  }
+
+  return 'just now';
+};
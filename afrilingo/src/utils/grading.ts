@@ -0,0 +1,274 @@
+/**
+ * Answer grading
+ * Scores a learner's answer against an exercise's correct answer and
+ * its accepted alternatives. Answers are compared after Unicode and
+ * punctuation normalisation, with per-type allowances for missing
+ * tone marks, small typos and partly right answers.
+ */
+
+import type { Exercise } from '../services/lessonService';
+import { alignWords, summarizeAlignment, tokenizeWords } from './alignment';
+import { hasToneMarks } from './tones';
+
+export type GradeVerdict =
+  | 'exact'         // Matches the correct answer
+  | 'alternative'   // Matches an accepted alternative
+  | 'missing_tones' // Right letters, tone marks left off
+  | 'wrong_tones'   // Right letters, different tone marks
+  | 'typo'          // Within a letter or two of an answer
+  | 'partial'       // Some of the words are right
+  | 'incorrect';
+
+export interface GradeResult {
+  isCorrect: boolean;
+  credit: number; // 0-1, share of the exercise's points earned
+  verdict: GradeVerdict;
+  expected: string; // The accepted answer closest to the response
+}
+
+export type GradableExercise = Pick<
+  Exercise,
+  'exercise_type' | 'correct_answer' | 'accepted_answers' | 'tone_strict'
+>;
+
+interface GradingRule {
+  toneLenient: boolean;
+  typos: boolean;
+  partialCredit: boolean;
+}
+
+// The server grades attempts again with the same rules, credits and
+// normalisation (supabase/migrations/20261019220000_server_side_grading.sql);
+// change both together.
+
+// Chosen options must match exactly; typed answers get some leeway
+const RULES: Record<Exercise['exercise_type'], GradingRule> = {
+  multiple_choice: { toneLenient: false, typos: false, partialCredit: false },
+  translation: { toneLenient: true, typos: true, partialCredit: true },
+  fill_blank: { toneLenient: true, typos: true, partialCredit: true },
+  pronunciation: { toneLenient: false, typos: false, partialCredit: false },
+  conversation: { toneLenient: true, typos: true, partialCredit: true },
+  dictation: { toneLenient: true, typos: true, partialCredit: true },
+  audio_match: { toneLenient: false, typos: false, partialCredit: false },
+  // The tone marks are the whole question, so no leeway on them
+  tone_identification: { toneLenient: false, typos: false, partialCredit: false },
+  // Words come from the bank, so only their order can be wrong
+  word_order: { toneLenient: false, typos: false, partialCredit: true }
+};
+
+const MISSING_TONES_CREDIT = 0.8;
+const WRONG_TONES_CREDIT = 0.5;
+const TYPO_CREDIT = 0.9;
+// Below this share of matching words an answer earns nothing
+const PARTIAL_THRESHOLD = 0.5;
+// Words shorter than this must be spelled exactly
+const MIN_TYPO_LENGTH = 4;
+
+const TONE_MARKS = /[\u0300\u0301\u0304]/g;
+
+const INCORRECT: Omit<GradeResult, 'expected'> = { isCorrect: false, credit: 0, verdict: 'incorrect' };
+
+/**
+ * Canonical form of an answer: NFC, lower case, single spaces. Anything
+ * but letters, digits, the combining marks U+0300-U+036F (underdots,
+ * tone marks) and whitespace separates words.
+ */
+export const normalizeAnswer = (text: string): string =>
+  text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}0-9\u0300-\u036f\s]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * An answer with its tone marks removed, for tone-insensitive comparison
+ */
+export const stripToneMarks = (text: string): string =>
+  text.normalize('NFD').replace(TONE_MARKS, '').normalize('NFC');
+
+const editDistance = (a: string, b: string): number => {
+  const left = Array.from(a);
+  const right = Array.from(b);
+  let previous = Array.from({ length: right.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      current[j] = Math.min(
+        previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1),
+        previous[j] + 1,
+        current[j - 1] + 1
+      );
+    }
+    previous = current;
+  }
+
+  return previous[right.length];
+};
+
+/**
+ * Whether two (normalised) strings differ by a small slip of the keyboard:
+ * one edit for short answers, two for longer ones
+ */
+export const isNearMiss = (expected: string, actual: string): boolean => {
+  const length = Array.from(expected).length;
+  if (length < MIN_TYPO_LENGTH || expected === actual) return false;
+  return editDistance(expected, actual) <= (length >= 8 ? 2 : 1);
+};
+
+const gradeAgainst = (
+  answer: string,
+  response: string,
+  rule: GradingRule,
+  toneStrict: boolean,
+  isAlternative: boolean
+): Omit<GradeResult, 'expected'> => {
+  const expected = normalizeAnswer(answer);
+  const actual = normalizeAnswer(response);
+
+  if (actual === expected) {
+    return { isCorrect: true, credit: 1, verdict: isAlternative ? 'alternative' : 'exact' };
+  }
+
+  const expectedBare = rule.toneLenient ? stripToneMarks(expected) : expected;
+  const actualBare = rule.toneLenient ? stripToneMarks(actual) : actual;
+  const expectedHasTones = hasToneMarks(expected);
+  const missingTones = rule.toneLenient && expectedHasTones && !hasToneMarks(actual);
+
+  if (rule.toneLenient && actualBare === expectedBare) {
+    // An answer written without marks can't be contradicted by them,
+    // unless the exercise asks for exact tones
+    if (!expectedHasTones && !toneStrict) {
+      return { isCorrect: true, credit: 1, verdict: isAlternative ? 'alternative' : 'exact' };
+    }
+    if (!missingTones) {
+      return { isCorrect: false, credit: WRONG_TONES_CREDIT, verdict: 'wrong_tones' };
+    }
+    return toneStrict
+      ? { isCorrect: false, credit: WRONG_TONES_CREDIT, verdict: 'missing_tones' }
+      : { isCorrect: true, credit: MISSING_TONES_CREDIT, verdict: 'missing_tones' };
+  }
+
+  if (rule.typos && isNearMiss(expectedBare, actualBare)) {
+    if (missingTones && toneStrict) {
+      return { isCorrect: false, credit: WRONG_TONES_CREDIT * TYPO_CREDIT, verdict: 'typo' };
+    }
+    return {
+      isCorrect: true,
+      credit: missingTones ? MISSING_TONES_CREDIT * TYPO_CREDIT : TYPO_CREDIT,
+      verdict: 'typo'
+    };
+  }
+
+  if (rule.partialCredit) {
+    const expectedWords = tokenizeWords(expectedBare);
+    const actualWords = tokenizeWords(actualBare);
+    if (expectedWords.length > 1) {
+      const { matches } = summarizeAlignment(
+        alignWords(expectedWords, actualWords, (e, a) => e === a || (rule.typos && isNearMiss(e, a)))
+      );
+      const share = matches / Math.max(expectedWords.length, actualWords.length);
+      if (share >= PARTIAL_THRESHOLD) {
+        return { isCorrect: false, credit: share, verdict: 'partial' };
+      }
+    }
+  }
+
+  return INCORRECT;
+};
+
+/**
+ * Grade a response to an exercise, keeping the most generous reading
+ * across the correct answer and its accepted alternatives
+ */
+export const gradeAnswer = (exercise: GradableExercise, response: string): GradeResult => {
+  const rule = RULES[exercise.exercise_type] ?? RULES.multiple_choice;
+  const answers = [exercise.correct_answer, ...(exercise.accepted_answers || [])];
+
+  let best: GradeResult = { ...INCORRECT, expected: exercise.correct_answer };
+  answers.forEach((answer, index) => {
+    const result = gradeAgainst(answer, response, rule, !!exercise.tone_strict, index > 0);
+    const better = result.isCorrect !== best.isCorrect
+      ? result.isCorrect
+      : result.credit > best.credit;
+    if (better) best = { ...result, expected: answer };
+  });
+
+  return { ...best, credit: Math.round(best.credit * 100) / 100 };
+};
+
+/**
+ * Which placed words are in the right position, aligned against
+ * whichever accepted answer the arrangement is closest to
+ */
+export const markWordPositions = (answers: string[], placed: string[]): boolean[] => {
+  // A tile may hold more than one word; it's in place only if all are
+  const words: string[] = [];
+  const tileOf: number[] = [];
+  placed.forEach((tile, index) => {
+    tokenizeWords(normalizeAnswer(tile)).forEach(word => {
+      words.push(word);
+      tileOf.push(index);
+    });
+  });
+
+  let best: boolean[] = placed.map(() => false);
+  let bestMatches = -1;
+
+  answers.forEach(answer => {
+    const positions = placed.map(tile => tokenizeWords(normalizeAnswer(tile)).length > 0);
+    const alignment = alignWords(tokenizeWords(normalizeAnswer(answer)), words);
+    alignment.forEach(entry => {
+      if (entry.actualIndex !== undefined && entry.operation !== 'match') {
+        positions[tileOf[entry.actualIndex]] = false;
+      }
+    });
+
+    const { matches } = summarizeAlignment(alignment);
+    if (matches > bestMatches) {
+      best = positions;
+      bestMatches = matches;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * A short note to show alongside the result. Without revealAnswer the
+ * note hints at what's wrong without giving the answer away.
+ */
+export const describeGrade = (result: GradeResult, correctAnswer: string, revealAnswer = true): string => {
+  if (!revealAnswer && !result.isCorrect) {
+    switch (result.verdict) {
+      case 'missing_tones':
+        return 'Add the tone marks';
+      case 'wrong_tones':
+        return 'Check your tone marks';
+      case 'typo':
+        return 'Close - check the spelling and tone marks';
+      case 'partial':
+        return `Partly right (${Math.round(result.credit * 100)}%)`;
+      default:
+        return 'Not quite';
+    }
+  }
+
+  switch (result.verdict) {
+    case 'exact':
+      return 'Correct!';
+    case 'alternative':
+      return `Correct! You could also say: ${correctAnswer}`;
+    case 'missing_tones':
+      return `Watch the tone marks: ${result.expected}`;
+    case 'wrong_tones':
+      return `Check your tone marks: ${result.expected}`;
+    case 'typo':
+      return `Almost - check the spelling: ${result.expected}`;
+    case 'partial':
+      return `Partly right (${Math.round(result.credit * 100)}%). Answer: ${result.expected}`;
+    default:
+      return `Answer: ${result.expected}`;
+  }
+};
@@ -0,0 +1,185 @@
+/**
+ * JSON with source positions
+ * A small JSON parser that records where each value starts, keyed by
+ * JSON Pointer (e.g. "/lessons/0/title"), so problems found in the
+ * parsed data can be reported against the original file.
+ */
+
+export interface SourceLocation {
+  line: number;   // 1-based
+  column: number; // 1-based
+}
+
+export interface ParsedJson {
+  value: unknown;
+  locations: Map<string, SourceLocation>;
+}
+
+export class JsonSyntaxError extends Error {
+  location: SourceLocation;
+
+  constructor(message: string, location: SourceLocation) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+    this.location = location;
+  }
+}
+
+const escapePointer = (segment: string) => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Append a key or index to a JSON Pointer
+ */
+export const pointerTo = (pointer: string, segment: string | number) =>
+  `${pointer}/${escapePointer(String(segment))}`;
+
+/**
+ * The location of a pointer, or of its nearest parent that has one
+ */
+export const locate = (locations: Map<string, SourceLocation>, pointer: string): SourceLocation => {
+  let current = pointer;
+  while (current) {
+    const location = locations.get(current);
+    if (location) return location;
+    current = current.slice(0, current.lastIndexOf('/'));
+  }
+  return locations.get('') || { line: 1, column: 1 };
+};
+
+export const parseJsonWithLocations = (text: string): ParsedJson => {
+  const locations = new Map<string, SourceLocation>();
+  let index = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const here = (): SourceLocation => ({ line, column: index - lineStart + 1 });
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, here());
+  };
+
+  const skipWhitespace = () => {
+    while (index < text.length) {
+      const char = text[index];
+      if (char === '\n') {
+        line++;
+        lineStart = index + 1;
+      } else if (char !== ' ' && char !== '\t' && char !== '\r') {
+        break;
+      }
+      index++;
+    }
+  };
+
+  const expect = (char: string) => {
+    if (text[index] !== char) fail(`Expected "${char}"`);
+    index++;
+  };
+
+  const parseString = (): string => {
+    expect('"');
+    let result = '';
+    while (index < text.length && text[index] !== '"') {
+      const char = text[index];
+      if (char === '\n') fail('Unterminated string');
+      if (char === '\\') {
+        const escape = text[index + 1];
+        const simple: Record<string, string> = {
+          '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+        };
+        if (escape === 'u') {
+          const hex = text.slice(index + 2, index + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('Invalid unicode escape');
+          result += String.fromCharCode(parseInt(hex, 16));
+          index += 6;
+        } else if (escape in simple) {
+          result += simple[escape];
+          index += 2;
+        } else {
+          fail('Invalid escape sequence');
+        }
+      } else {
+        result += char;
+        index++;
+      }
+    }
+    expect('"');
+    return result;
+  };
+
+  const parseNumber = (): number => {
+    const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(text.slice(index));
+    if (!match) fail('Invalid number');
+    index += match![0].length;
+    return Number(match![0]);
+  };
+
+  const parseLiteral = <T>(word: string, value: T): T => {
+    if (text.slice(index, index + word.length) !== word) fail('Unexpected token');
+    index += word.length;
+    return value;
+  };
+
+  const parseValue = (pointer: string): unknown => {
+    skipWhitespace();
+    locations.set(pointer, here());
+    const char = text[index];
+
+    if (char === '{') {
+      index++;
+      const result: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[index] === '}') {
+        index++;
+        return result;
+      }
+      for (;;) {
+        skipWhitespace();
+        const key = parseString();
+        if (key in result) fail(`Duplicate key "${key}"`);
+        skipWhitespace();
+        expect(':');
+        result[key] = parseValue(pointerTo(pointer, key));
+        skipWhitespace();
+        if (text[index] === ',') {
+          index++;
+        } else {
+          expect('}');
+          return result;
+        }
+      }
+    }
+
+    if (char === '[') {
+      index++;
+      const result: unknown[] = [];
+      skipWhitespace();
+      if (text[index] === ']') {
+        index++;
+        return result;
+      }
+      for (;;) {
+        result.push(parseValue(pointerTo(pointer, result.length)));
+        skipWhitespace();
+        if (text[index] === ',') {
+          index++;
+        } else {
+          expect(']');
+          return result;
+        }
+      }
+    }
+
+    if (char === '"') return parseString();
+    if (char === 't') return parseLiteral('true', true);
+    if (char === 'f') return parseLiteral('false', false);
+    if (char === 'n') return parseLiteral('null', null);
+    if (char === '-' || (char >= '0' && char <= '9')) return parseNumber();
+    return fail(index >= text.length ? 'Unexpected end of file' : 'Unexpected token');
+  };
+
+  const value = parseValue('');
+  skipWhitespace();
+  if (index < text.length) fail('Unexpected content after the end of the document');
+
+  return { value, locations };
+};
@@ -0,0 +1,117 @@
+/**
+ * Lesson sessions
+ * Accumulates what happens during one run through a lesson - answers,
+ * retries, hints and time - and turns it into the lesson's score.
+ * Sessions are plain values; each update returns a new session.
+ */
+
+import type { Exercise } from '../services/lessonService';
+import type { GradeResult } from './grading';
+
+export interface ExerciseOutcome {
+  attempts: number;
+  hintsUsed: number;
+  credit: number; // Best credit earned on any attempt, 0-1
+  correct: boolean;
+}
+
+export interface LessonSession {
+  lessonId: string;
+  startedAt: string;
+  outcomes: Record<string, ExerciseOutcome>;
+}
+
+export interface LessonSessionStats {
+  correctAnswers: number;
+  incorrectAnswers: number;
+  hintsUsed: number;
+  retries: number;
+  timeSpentSeconds: number;
+}
+
+// Each retry or hint takes this share off an exercise's credit
+const RETRY_PENALTY = 0.25;
+const HINT_PENALTY = 0.2;
+
+const emptyOutcome = (): ExerciseOutcome => ({ attempts: 0, hintsUsed: 0, credit: 0, correct: false });
+
+export const startSession = (lessonId: string, now: Date = new Date()): LessonSession => ({
+  lessonId,
+  startedAt: now.toISOString(),
+  outcomes: {}
+});
+
+/**
+ * Record a graded attempt at an exercise
+ */
+export const recordAttempt = (session: LessonSession, exerciseId: string, grade: GradeResult): LessonSession => {
+  const outcome = session.outcomes[exerciseId] || emptyOutcome();
+  return {
+    ...session,
+    outcomes: {
+      ...session.outcomes,
+      [exerciseId]: {
+        ...outcome,
+        attempts: outcome.attempts + 1,
+        credit: Math.max(outcome.credit, grade.credit),
+        correct: outcome.correct || grade.isCorrect
+      }
+    }
+  };
+};
+
+/**
+ * Record a hint shown for an exercise
+ */
+export const recordHint = (session: LessonSession, exerciseId: string): LessonSession => {
+  const outcome = session.outcomes[exerciseId] || emptyOutcome();
+  return {
+    ...session,
+    outcomes: {
+      ...session.outcomes,
+      [exerciseId]: { ...outcome, hintsUsed: outcome.hintsUsed + 1 }
+    }
+  };
+};
+
+/**
+ * Credit for one exercise after retry and hint penalties
+ */
+const adjustedCredit = (outcome: ExerciseOutcome): number => {
+  const retries = Math.max(0, outcome.attempts - 1);
+  const penalty = retries * RETRY_PENALTY + outcome.hintsUsed * HINT_PENALTY;
+  return Math.max(0, outcome.credit * (1 - penalty));
+};
+
+/**
+ * Lesson score out of 100, weighting each exercise by its points.
+ * Exercises never attempted count as zero.
+ */
+export const scoreSession = (session: LessonSession, exercises: Pick<Exercise, 'id' | 'points'>[]): number => {
+  const totalPoints = exercises.reduce((sum, exercise) => sum + (exercise.points || 1), 0);
+  if (totalPoints === 0) return 0;
+
+  const earned = exercises.reduce((sum, exercise) => {
+    const outcome = session.outcomes[exercise.id];
+    return sum + (outcome ? adjustedCredit(outcome) * (exercise.points || 1) : 0);
+  }, 0);
+
+  return Math.round((earned / totalPoints) * 100);
+};
+
+/**
+ * Totals for the session so far
+ */
+export const summarizeSession = (session: LessonSession, now: Date = new Date()): LessonSessionStats => {
+  const outcomes = Object.values(session.outcomes);
+  return {
+    correctAnswers: outcomes.filter(outcome => outcome.correct).length,
+    incorrectAnswers: outcomes.reduce(
+      (sum, outcome) => sum + outcome.attempts - (outcome.correct ? 1 : 0),
+      0
+    ),
+    hintsUsed: outcomes.reduce((sum, outcome) => sum + outcome.hintsUsed, 0),
+    retries: outcomes.reduce((sum, outcome) => sum + Math.max(0, outcome.attempts - 1), 0),
+    timeSpentSeconds: Math.max(0, Math.round((now.getTime() - new Date(session.startedAt).getTime()) / 1000))
+  };
+};
@@ -0,0 +1,157 @@
+/**
+ * Pitch (F0) tracking
+ * A small YIN implementation that runs over decoded audio in the
+ * browser, so learners can see the melody of what they said.
+ */
+
+export interface PitchPoint {
+  time: number; // Seconds from the start of the recording
+  frequency: number | null; // Hz, or null where the frame is unvoiced
+}
+
+export interface PitchContour {
+  duration: number;
+  points: PitchPoint[];
+}
+
+const ANALYSIS_RATE = 16000; // Speech F0 sits well below 8kHz
+const MIN_FREQUENCY = 75;
+const MAX_FREQUENCY = 500;
+const HOP_SECONDS = 0.01;
+const YIN_THRESHOLD = 0.15;
+const SILENCE_RMS = 0.01;
+
+/**
+ * Mix all channels down to mono and decimate to roughly ANALYSIS_RATE
+ */
+const prepareSamples = (buffer: AudioBuffer): { samples: Float32Array; sampleRate: number } => {
+  const factor = Math.max(1, Math.floor(buffer.sampleRate / ANALYSIS_RATE));
+  const length = Math.floor(buffer.length / factor);
+  const samples = new Float32Array(length);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      for (let k = 0; k < factor; k++) {
+        sum += data[i * factor + k];
+      }
+      samples[i] += sum / factor / buffer.numberOfChannels;
+    }
+  }
+
+  return { samples, sampleRate: buffer.sampleRate / factor };
+};
+
+/**
+ * Estimate the fundamental frequency of one frame, or null if unvoiced
+ */
+const estimateFrame = (
+  samples: Float32Array,
+  start: number,
+  windowSize: number,
+  tauMin: number,
+  tauMax: number,
+  sampleRate: number
+): number | null => {
+  let energy = 0;
+  for (let j = 0; j < windowSize; j++) {
+    energy += samples[start + j] * samples[start + j];
+  }
+  if (Math.sqrt(energy / windowSize) < SILENCE_RMS) return null;
+
+  // Difference function and its cumulative mean normalisation
+  const normalized = new Float32Array(tauMax + 1);
+  normalized[0] = 1;
+  let runningSum = 0;
+
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let difference = 0;
+    for (let j = 0; j < windowSize; j++) {
+      const delta = samples[start + j] - samples[start + j + tau];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    normalized[tau] = runningSum === 0 ? 1 : (difference * tau) / runningSum;
+  }
+
+  // First dip under the threshold, followed down to its local minimum
+  let tau = tauMin;
+  while (tau <= tauMax && normalized[tau] >= YIN_THRESHOLD) tau++;
+  if (tau > tauMax) return null;
+  while (tau + 1 <= tauMax && normalized[tau + 1] < normalized[tau]) tau++;
+
+  // Parabolic interpolation for sub-sample accuracy
+  let refinedTau = tau;
+  if (tau > 1 && tau < tauMax) {
+    const left = normalized[tau - 1];
+    const centre = normalized[tau];
+    const right = normalized[tau + 1];
+    const denominator = left + right - 2 * centre;
+    if (denominator !== 0) {
+      refinedTau = tau + (left - right) / (2 * denominator);
+    }
+  }
+
+  return sampleRate / refinedTau;
+};
+
+/**
+ * Median of three neighbouring frames to remove octave jumps and blips
+ */
+const smoothContour = (points: PitchPoint[]): PitchPoint[] => {
+  return points.map((point, index) => {
+    if (point.frequency === null) return point;
+    const neighbours = [points[index - 1], point, points[index + 1]]
+      .map(p => p?.frequency)
+      .filter((f): f is number => typeof f === 'number')
+      .sort((a, b) => a - b);
+    return { ...point, frequency: neighbours[Math.floor(neighbours.length / 2)] };
+  });
+};
+
+/**
+ * Track the pitch of a decoded recording
+ */
+export const extractPitchContour = (buffer: AudioBuffer): PitchContour => {
+  const { samples, sampleRate } = prepareSamples(buffer);
+  const tauMin = Math.floor(sampleRate / MAX_FREQUENCY);
+  const tauMax = Math.ceil(sampleRate / MIN_FREQUENCY);
+  const windowSize = tauMax * 2;
+  const hop = Math.round(sampleRate * HOP_SECONDS);
+
+  const points: PitchPoint[] = [];
+  for (let start = 0; start + windowSize + tauMax < samples.length; start += hop) {
+    points.push({
+      time: start / sampleRate,
+      frequency: estimateFrame(samples, start, windowSize, tauMin, tauMax, sampleRate)
+    });
+  }
+
+  return {
+    duration: buffer.duration,
+    points: smoothContour(points)
+  };
+};
+
+/**
+ * Express a contour in semitones around the speaker's own median pitch
+ * and trim the silence around it, so a low male voice and a high female
+ * voice saying the same tones produce comparable shapes.
+ */
+export const normalizeContour = (contour: PitchContour): Array<{ position: number; semitones: number | null }> => {
+  const voiced = contour.points.filter(p => p.frequency !== null);
+  if (voiced.length === 0) return [];
+
+  const frequencies = voiced.map(p => p.frequency!).sort((a, b) => a - b);
+  const median = frequencies[Math.floor(frequencies.length / 2)];
+  const start = voiced[0].time;
+  const span = voiced[voiced.length - 1].time - start || 1;
+
+  return contour.points
+    .filter(p => p.time >= start && p.time <= start + span)
+    .map(p => ({
+      position: (p.time - start) / span,
+      semitones: p.frequency === null ? null : 12 * Math.log2(p.frequency / median)
+    }));
+};
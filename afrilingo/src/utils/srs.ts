@@ -0,0 +1,78 @@
+/**
+ * Spaced repetition scheduling (SM-2)
+ * Each review grade updates a word's ease, interval and repetition
+ * count; the next review is due after the new interval.
+ */
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface MemoryState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+}
+
+export interface ScheduledReview {
+  state: MemoryState;
+  dueAt: Date;
+}
+
+export const INITIAL_MEMORY_STATE: MemoryState = {
+  easeFactor: 2.5,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0
+};
+
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A forgotten word comes back within the same session
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// SM-2 response quality (0-5) for each grade
+const QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+/**
+ * Schedule the next review of a word after grading it
+ */
+export const scheduleReview = (
+  state: MemoryState,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ScheduledReview => {
+  const quality = QUALITY[grade];
+  const easeFactor = Math.max(
+    MIN_EASE,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return {
+      state: { easeFactor, intervalDays: 0, repetitions: 0, lapses: state.lapses + 1 },
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS)
+    };
+  }
+
+  let intervalDays: number;
+  if (state.repetitions === 0) {
+    intervalDays = grade === 'easy' ? 4 : 1;
+  } else if (state.repetitions === 1) {
+    intervalDays = grade === 'hard' ? 3 : 6;
+  } else if (grade === 'hard') {
+    intervalDays = Math.max(state.intervalDays + 1, Math.round(state.intervalDays * 1.2));
+  } else {
+    intervalDays = Math.round(state.intervalDays * easeFactor * (grade === 'easy' ? 1.3 : 1));
+  }
+
+  return {
+    state: { easeFactor, intervalDays, repetitions: state.repetitions + 1, lapses: state.lapses },
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS)
+  };
+};
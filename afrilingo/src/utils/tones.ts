@@ -0,0 +1,76 @@
+/**
+ * Tone helpers for Yoruba and Igbo
+ * Splits words into tone-bearing units (vowels and syllabic nasals)
+ * and reads the tone written on each one.
+ */
+
+export type Tone = 'high' | 'mid' | 'low';
+
+export interface ToneUnit {
+  segment: string; // Base letters of the unit, tone marks removed
+  tone: Tone;
+  marked: boolean; // Whether the tone was written explicitly
+}
+
+const ACUTE = '\u0301';
+const GRAVE = '\u0300';
+const MACRON = '\u0304';
+const TONE_MARKS = new Set([ACUTE, GRAVE, MACRON]);
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u']);
+const NASALS = new Set(['m', 'n']);
+
+const isCombiningMark = (char: string) => /\p{M}/u.test(char);
+
+// Unmarked syllables are mid in Yoruba orthography but high in Igbo
+const unmarkedTone = (language: 'yo' | 'ig'): Tone => (language === 'yo' ? 'mid' : 'high');
+
+/**
+ * Whether a piece of text carries any written tone marks
+ */
+export const hasToneMarks = (text: string): boolean => {
+  return Array.from(text.normalize('NFD')).some(char => TONE_MARKS.has(char));
+};
+
+/**
+ * Split a single word into its tone-bearing units, in order
+ */
+export const extractToneUnits = (word: string, language: 'yo' | 'ig'): ToneUnit[] => {
+  const chars = Array.from(word.toLowerCase().normalize('NFD'));
+  const units: ToneUnit[] = [];
+
+  let i = 0;
+  while (i < chars.length) {
+    const base = chars[i];
+    let segment = base;
+    let tone: Tone | null = null;
+
+    // Gather the combining marks that belong to this letter
+    let j = i + 1;
+    while (j < chars.length && isCombiningMark(chars[j])) {
+      const mark = chars[j];
+      if (mark === ACUTE) tone = 'high';
+      else if (mark === GRAVE) tone = 'low';
+      else if (mark === MACRON) tone = 'mid';
+      else segment += mark;
+      j++;
+    }
+
+    const next = chars[j];
+    const isSyllabicNasal =
+      NASALS.has(base) &&
+      (tone !== null || (i === 0 && next !== undefined && !VOWELS.has(next)));
+
+    if (VOWELS.has(base) || isSyllabicNasal) {
+      units.push({
+        segment: segment.normalize('NFC'),
+        tone: tone ?? unmarkedTone(language),
+        marked: tone !== null
+      });
+    }
+
+    i = j;
+  }
+
+  return units;
+};
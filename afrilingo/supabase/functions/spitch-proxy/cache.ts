@@ -0,0 +1,133 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Only deterministic text endpoints are cached. Transcriptions are
+// never cached: their input is a learner's voice recording.
+export const CACHE_TTL_SECONDS: Record<string, number> = {
+  '/v1/speech': 30 * 24 * 60 * 60,
+  '/v1/diacritics': 7 * 24 * 60 * 60,
+  '/v1/translate': 7 * 24 * 60 * 60,
+}
+
+const BUCKET = 'spitch-cache'
+
+// Expired entries cleared per cache write, so cleanup keeps pace with growth
+const PURGE_BATCH_SIZE = 20
+
+export interface CachedResponse {
+  data: ArrayBuffer
+  contentType: string
+  ageSeconds: number
+}
+
+// Stable JSON: sorted keys, NFC text with whitespace collapsed
+const normalizeBody = (value: unknown): unknown => {
+  if (typeof value === 'string') return value.normalize('NFC').trim().replace(/\s+/g, ' ')
+  if (Array.isArray(value)) return value.map(normalizeBody)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, normalizeBody((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+/**
+ * Content address for a request: SHA-256 of the endpoint and the
+ * normalised JSON body, or null if the request can't be cached
+ */
+export const cacheKeyFor = async (endpoint: string, body: unknown): Promise<string | null> => {
+  if (!(endpoint in CACHE_TTL_SECONDS) || typeof body !== 'string') return null
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    return null
+  }
+
+  const input = new TextEncoder().encode(`${endpoint}\n${JSON.stringify(normalizeBody(parsed))}`)
+  const digest = await crypto.subtle.digest('SHA-256', input)
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * A stored response that hasn't expired, or null
+ */
+export const readCache = async (admin: SupabaseClient, key: string): Promise<CachedResponse | null> => {
+  const { data: entry } = await admin
+    .from('spitch_cache')
+    .select('content_type, created_at')
+    .eq('key', key)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+  if (!entry) return null
+
+  const { data: file } = await admin.storage.from(BUCKET).download(key)
+  if (!file) return null
+
+  await admin.rpc('touch_spitch_cache', { p_key: key })
+  return {
+    data: await file.arrayBuffer(),
+    contentType: entry.content_type,
+    ageSeconds: Math.max(0, Math.floor((Date.now() - Date.parse(entry.created_at)) / 1000)),
+  }
+}
+
+/**
+ * Store a successful response under its key, replacing any expired copy
+ */
+export const writeCache = async (
+  admin: SupabaseClient,
+  key: string,
+  endpoint: string,
+  contentType: string,
+  data: ArrayBuffer
+) => {
+  const { error: uploadError } = await admin.storage
+    .from(BUCKET)
+    .upload(key, data, { contentType, upsert: true })
+  if (uploadError) throw uploadError
+
+  const now = Date.now()
+  const { error } = await admin.from('spitch_cache').upsert({
+    key,
+    endpoint,
+    content_type: contentType,
+    size_bytes: data.byteLength,
+    hits: 0,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + CACHE_TTL_SECONDS[endpoint] * 1000).toISOString(),
+  })
+  if (error) throw error
+}
+
+/**
+ * Delete the oldest expired entries and their stored responses.
+ * Resolves to the number removed.
+ */
+export const purgeExpired = async (admin: SupabaseClient, limit = PURGE_BATCH_SIZE): Promise<number> => {
+  const now = new Date().toISOString()
+  const { data: expired, error } = await admin
+    .from('spitch_cache')
+    .select('key')
+    .lte('expires_at', now)
+    .order('expires_at')
+    .limit(limit)
+  if (error) throw error
+  if (!expired?.length) return 0
+
+  const keys = expired.map((entry: { key: string }) => entry.key)
+  const { error: removeError } = await admin.storage.from(BUCKET).remove(keys)
+  if (removeError) throw removeError
+
+  // A key rewritten in the meantime has a new expiry, so its row stays;
+  // readCache treats the missing object as a miss and it is stored again
+  const { error: deleteError } = await admin
+    .from('spitch_cache')
+    .delete()
+    .in('key', keys)
+    .lte('expires_at', now)
+  if (deleteError) throw deleteError
+
+  return keys.length
+}
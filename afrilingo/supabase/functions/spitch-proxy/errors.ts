@@ -0,0 +1,58 @@
+// Every error the proxy returns has the same shape:
+//   { code, message, requestId, details? }
+// code is stable and safe to branch on; message is for people. Nothing
+// about our configuration or Spitch's raw response is passed through.
+
+export type ProxyErrorCode =
+  | 'unauthorized'          // No signed-in user
+  | 'invalid_endpoint'      // Not one of the proxied endpoints
+  | 'invalid_request'       // The body failed validation; see details.fields
+  | 'quota_exceeded'        // The user's daily allowance is used up
+  | 'upstream_rejected'     // Spitch refused the request as invalid
+  | 'service_busy'          // Spitch is rate limiting or out of credit
+  | 'service_unavailable'   // The proxy isn't configured or Spitch is down
+  | 'internal_error'
+
+export class ProxyError extends Error {
+  code: ProxyErrorCode
+  status: number
+  details?: Record<string, unknown>
+  headers: Record<string, string>
+
+  constructor(
+    code: ProxyErrorCode,
+    status: number,
+    message: string,
+    options: { details?: Record<string, unknown>; headers?: Record<string, string> } = {}
+  ) {
+    super(message)
+    this.name = 'ProxyError'
+    this.code = code
+    this.status = status
+    this.details = options.details
+    this.headers = options.headers || {}
+  }
+}
+
+/**
+ * Translate a failed Spitch response into what the client is told
+ */
+export const upstreamError = (status: number, retryAfter: string | null): ProxyError => {
+  if (status === 400 || status === 413 || status === 415 || status === 422) {
+    return new ProxyError('upstream_rejected', 422, 'The speech service could not process this request')
+  }
+  if (status === 402 || status === 429) {
+    return new ProxyError('service_busy', 503, 'The speech service is busy. Please try again shortly.', {
+      headers: retryAfter ? { 'Retry-After': retryAfter } : {},
+    })
+  }
+  return new ProxyError('service_unavailable', 502, 'The speech service is unavailable. Please try again later.')
+}
+
+export const errorBody = (error: ProxyError, requestId: string) =>
+  JSON.stringify({
+    code: error.code,
+    message: error.message,
+    requestId,
+    ...(error.details ? { details: error.details } : {}),
+  })
@@ -1,9 +1,20 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { consumeQuota, measureRequest, secondsUntilReset } from './quota.ts'
+import { cacheKeyFor, purgeExpired, readCache, writeCache } from './cache.ts'
+import { createRequestLog } from './log.ts'
+import { ProxyError, errorBody, upstreamError } from './errors.ts'
+import { checkContentLength, validateRequest, type FieldError } from './validate.ts'
+
+// Overridable so a local stack can forward to src/scripts/spitchMock.ts
+const SPITCH_API_URL = Deno.env.get('SPITCH_API_URL') || 'https://api.spi-tch.com'
+const ALLOWED_ENDPOINTS = ['/v1/speech', '/v1/transcriptions', '/v1/diacritics', '/v1/translate']
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-request-id',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'Retry-After, X-Cache, Age, X-Request-Id',
 }
 
 serve(async (req) => {
@@ -12,164 +23,158 @@ serve(async (req) => {
     return new Response('ok', { headers: corsHeaders })
   }
 
+  const log = createRequestLog(req)
+  const responseHeaders = { ...corsHeaders, 'X-Request-Id': log.requestId }
+
+  // Quota taken for this request, given back if Spitch fails it
+  let refund: (() => Promise<unknown>) | null = null
+
   try {
-    const url = new URL(req.url)
-    const endpoint = url.searchParams.get('endpoint') || ''
-    
-    // Debug: Check if API key exists
+    const endpoint = new URL(req.url).searchParams.get('endpoint') || ''
+    log.set({ endpoint: ALLOWED_ENDPOINTS.includes(endpoint) ? endpoint : 'invalid' })
+
     const SPITCH_API_KEY = Deno.env.get('SPITCH_API_KEY')
-    
     if (!SPITCH_API_KEY) {
-      console.error('SPITCH_API_KEY not found in environment variables')
-      console.log('Available env vars:', Object.keys(Deno.env.toObject()))
-      
-      return new Response(JSON.stringify({ 
-        error: 'Configuration error',
-        message: 'SPITCH_API_KEY not configured. Please set it in Supabase Edge Function secrets.',
-        debug: {
-          hasKey: false,
-          availableVars: Object.keys(Deno.env.toObject()).filter(key => !key.includes('SECRET'))
-        }
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
-      })
+      log.error('config', new Error('SPITCH_API_KEY is not set'))
+      throw new ProxyError('service_unavailable', 503, 'Speech features are not available right now')
     }
-    
-    // Debug: Log that we have the key (but not the key itself)
-    console.log('SPITCH_API_KEY found, length:', SPITCH_API_KEY.length)
-    
-    // Validate endpoint
-    const allowedEndpoints = ['/v1/speech', '/v1/transcriptions', '/v1/diacritics', '/v1/translate']
-    if (!allowedEndpoints.includes(endpoint)) {
-      return new Response(JSON.stringify({ 
-        error: 'Invalid endpoint',
-        message: `Endpoint must be one of: ${allowedEndpoints.join(', ')}`
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      })
+
+    // Only signed-in users may spend our Spitch credit; the anon key
+    // alone passes the gateway's JWT check but has no user behind it
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false } }
+    )
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '')
+    const { data: { user } } = token ? await admin.auth.getUser(token) : { data: { user: null } }
+    if (!user) {
+      throw new ProxyError('unauthorized', 401, 'Sign in to use speech features')
     }
-    
-    const SPITCH_API_URL = 'https://api.spi-tch.com'
-    
-    console.log(`Proxying request to: ${SPITCH_API_URL}${endpoint}`)
-    
-    // Prepare headers for Spitch API
-    const spitchHeaders: HeadersInit = {
+
+    if (!ALLOWED_ENDPOINTS.includes(endpoint)) {
+      throw new ProxyError('invalid_endpoint', 400, `Endpoint must be one of: ${ALLOWED_ENDPOINTS.join(', ')}`)
+    }
+
+    const invalid = (fields: FieldError[]) =>
+      new ProxyError('invalid_request', 400, 'The request is invalid', { details: { fields } })
+
+    const oversized = checkContentLength(endpoint, req)
+    if (oversized.length > 0) throw invalid(oversized)
+
+    const spitchHeaders: Record<string, string> = {
       'Authorization': `Bearer ${SPITCH_API_KEY}`,
     }
-    
-    let requestBody: BodyInit | undefined
+
+    let requestBody: FormData | string | undefined
     const contentType = req.headers.get('content-type')
-    
+
     if (contentType?.includes('multipart/form-data')) {
-      // Handle multipart requests (for transcriptions)
+      // Let fetch set the multipart Content-Type with its boundary
       requestBody = await req.formData()
-      // Don't set Content-Type for multipart, let fetch set it with boundary
+      const content = requestBody.get('content')
+      log.set({ requestBytes: content instanceof Blob ? content.size : 0 })
     } else if (contentType?.includes('application/json')) {
-      // Handle JSON requests
       requestBody = await req.text()
       spitchHeaders['Content-Type'] = 'application/json'
+      log.set({ requestBytes: new TextEncoder().encode(requestBody).byteLength })
     }
-    
-    // Debug: Log request details
-    console.log('Request details:', {
-      endpoint,
-      hasAuth: spitchHeaders['Authorization']?.startsWith('Bearer '),
-      contentType,
-      bodyLength: requestBody ? requestBody.toString().length : 0
-    })
-    
-    // Make request to Spitch API
+
+    const fieldErrors = await validateRequest(endpoint, contentType, requestBody)
+    if (fieldErrors.length > 0) throw invalid(fieldErrors)
+
+    // Identical speech, diacritics and translate requests are answered
+    // from the cache without calling Spitch or counting against the quota
+    const cacheKey = await cacheKeyFor(endpoint, requestBody)
+    if (cacheKey) {
+      const cached = await readCache(admin, cacheKey).catch((error) => {
+        log.error('cache_read', error)
+        return null
+      })
+      if (cached) {
+        log.finish(200, { cache: 'HIT', responseBytes: cached.data.byteLength })
+        return new Response(cached.data, {
+          headers: {
+            ...responseHeaders,
+            'Content-Type': cached.contentType,
+            'Content-Length': cached.data.byteLength.toString(),
+            'X-Cache': 'HIT',
+            'Age': cached.ageSeconds.toString(),
+          },
+          status: 200,
+        })
+      }
+    }
+
+    const units = await measureRequest(endpoint, requestBody)
+    const quota = await consumeQuota(admin, user.id, endpoint, units)
+    log.set({ quotaUnits: units })
+
+    if (!quota.allowed) {
+      const retryAfter = secondsUntilReset()
+      throw new ProxyError('quota_exceeded', 429, `Daily limit of ${quota.limit} ${quota.unit} reached for ${endpoint}`, {
+        details: { endpoint, unit: quota.unit, limit: quota.limit, used: quota.used, requested: units, retryAfter },
+        headers: { 'Retry-After': String(retryAfter) },
+      })
+    }
+    refund = () => consumeQuota(admin, user.id, endpoint, -units)
+
+    const upstreamStartedAt = performance.now()
     const spitchResponse = await fetch(`${SPITCH_API_URL}${endpoint}`, {
       method: 'POST',
       headers: spitchHeaders,
       body: requestBody,
     })
-    
-    console.log('Spitch API response status:', spitchResponse.status)
-    
-    // Handle error responses
+    log.set({
+      upstreamStatus: spitchResponse.status,
+      upstreamLatencyMs: Math.round(performance.now() - upstreamStartedAt),
+    })
+
     if (!spitchResponse.ok) {
-      const errorText = await spitchResponse.text()
-      console.error('Spitch API error:', spitchResponse.status, errorText)
-      
-      // Try to parse as JSON for better error messages
-      try {
-        const errorJson = JSON.parse(errorText)
-        return new Response(JSON.stringify({ 
-          error: `Spitch API Error`,
-          status: spitchResponse.status,
-          message: errorJson.message || errorJson.detail || errorText,
-          details: errorJson,
-          debug: {
-            endpoint,
-            hasApiKey: !!SPITCH_API_KEY,
-            apiKeyLength: SPITCH_API_KEY?.length || 0
-          }
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: spitchResponse.status,
-        })
-      } catch {
-        return new Response(JSON.stringify({ 
-          error: `Spitch API Error`,
-          status: spitchResponse.status,
-          message: errorText,
-          debug: {
-            endpoint,
-            hasApiKey: !!SPITCH_API_KEY
-          }
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: spitchResponse.status,
-        })
-      }
+      // Drain the body so the connection is released, but don't pass it on
+      await spitchResponse.body?.cancel()
+      await refund()
+      refund = null
+      throw upstreamError(spitchResponse.status, spitchResponse.headers.get('Retry-After'))
     }
-    
-    // Handle response based on content type
-    const responseContentType = spitchResponse.headers.get('content-type')
-    
-    if (responseContentType?.includes('audio')) {
-      // Handle audio response (for speech generation)
-      const audioData = await spitchResponse.arrayBuffer()
-      return new Response(audioData, {
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': responseContentType,
-          'Content-Length': audioData.byteLength.toString(),
-        },
-        status: 200,
+
+    const responseContentType = spitchResponse.headers.get('content-type') || 'application/octet-stream'
+    const responseData = await spitchResponse.arrayBuffer()
+
+    if (cacheKey) {
+      await writeCache(admin, cacheKey, endpoint, responseContentType, responseData).catch((error) => {
+        log.error('cache_write', error)
       })
-    } else if (responseContentType?.includes('application/json')) {
-      // Handle JSON response
-      const jsonData = await spitchResponse.json()
-      return new Response(JSON.stringify(jsonData), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
+      await purgeExpired(admin).catch((error) => {
+        log.error('cache_purge', error)
       })
+    }
+
+    log.finish(200, { cache: cacheKey ? 'MISS' : 'BYPASS', responseBytes: responseData.byteLength })
+    return new Response(responseData, {
+      headers: {
+        ...responseHeaders,
+        'Content-Type': responseContentType,
+        'Content-Length': responseData.byteLength.toString(),
+        'X-Cache': cacheKey ? 'MISS' : 'BYPASS',
+      },
+      status: 200,
+    })
+  } catch (caught) {
+    await refund?.().catch((error) => log.error('quota_refund', error))
+
+    let error: ProxyError
+    if (caught instanceof ProxyError) {
+      error = caught
     } else {
-      // Handle other response types
-      const textData = await spitchResponse.text()
-      return new Response(textData, {
-        headers: { 
-          ...corsHeaders, 
-          'Content-Type': responseContentType || 'text/plain' 
-        },
-        status: 200,
-      })
+      log.error('unhandled', caught)
+      error = new ProxyError('internal_error', 500, 'Something went wrong. Please try again.')
     }
-    
-  } catch (error) {
-    console.error('Spitch proxy error:', error)
-    return new Response(JSON.stringify({ 
-      error: 'Proxy error',
-      message: error.message,
-      details: error.toString()
-    }), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      status: 500,
+
+    log.finish(error.status, { code: error.code })
+    return new Response(errorBody(error, log.requestId), {
+      headers: { ...responseHeaders, ...error.headers, 'Content-Type': 'application/json' },
+      status: error.status,
     })
   }
-})
\ No newline at end of file
+})
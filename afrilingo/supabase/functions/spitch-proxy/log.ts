@@ -0,0 +1,47 @@
+// One JSON line per event, tagged with the request's ID. Never log keys,
+// tokens, request text or audio: only sizes, timings and statuses.
+
+type Fields = Record<string, string | number | boolean | null | undefined>
+
+// Accept a caller's request ID only if it looks like one
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/
+
+export interface RequestLog {
+  requestId: string
+  set(fields: Fields): void
+  error(event: string, error: unknown, fields?: Fields): void
+  finish(status: number, fields?: Fields): void
+}
+
+const errorSummary = (error: unknown) =>
+  error instanceof Error ? `${error.name}: ${error.message}` : String(error)
+
+export const createRequestLog = (req: Request): RequestLog => {
+  const incoming = req.headers.get('x-request-id') || ''
+  const requestId = REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID()
+  const startedAt = performance.now()
+  const context: Fields = {}
+
+  const write = (level: 'info' | 'error', event: string, fields: Fields) => {
+    const line = JSON.stringify({ level, event, requestId, ...context, ...fields })
+    if (level === 'error') console.error(line)
+    else console.log(line)
+  }
+
+  return {
+    requestId,
+    set(fields) {
+      Object.assign(context, fields)
+    },
+    error(event, error, fields = {}) {
+      write('error', event, { ...fields, error: errorSummary(error) })
+    },
+    finish(status, fields = {}) {
+      write(status >= 500 ? 'error' : 'info', 'request', {
+        ...fields,
+        status,
+        latencyMs: Math.round(performance.now() - startedAt),
+      })
+    },
+  }
+}
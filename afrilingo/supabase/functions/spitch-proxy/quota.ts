@@ -0,0 +1,109 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Daily allowance per user. Text endpoints are metered in characters,
+// transcriptions in seconds of audio.
+export const QUOTAS: Record<string, { limit: number; unit: 'characters' | 'seconds' }> = {
+  '/v1/speech': { limit: 5000, unit: 'characters' },
+  '/v1/diacritics': { limit: 20000, unit: 'characters' },
+  '/v1/translate': { limit: 10000, unit: 'characters' },
+  '/v1/transcriptions': { limit: 600, unit: 'seconds' },
+}
+
+// Bytes per second assumed for compressed audio we can't read a length from
+const COMPRESSED_BYTES_PER_SECOND = 16000
+
+// WAV formats a recording can plausibly have. A header outside these is
+// refused: its length can't be trusted.
+const WAV_SAMPLE_RATES = { min: 8000, max: 96000 }
+const WAV_MAX_CHANNELS = 2
+const WAV_BITS_PER_SAMPLE = [8, 16, 24, 32]
+
+export interface QuotaResult {
+  allowed: boolean
+  used: number
+  limit: number
+  unit: 'characters' | 'seconds'
+}
+
+/**
+ * Length of an audio upload in seconds: exact for PCM WAV, estimated
+ * from the size for anything else. null when a WAV header declares an
+ * implausible or inconsistent format.
+ */
+export const audioSeconds = async (file: Blob): Promise<number | null> => {
+  const header = new DataView(await file.slice(0, 44).arrayBuffer())
+  const isWav = header.byteLength >= 44 &&
+    header.getUint32(0, false) === 0x52494646 && // "RIFF"
+    header.getUint32(8, false) === 0x57415645    // "WAVE"
+
+  if (!isWav) return Math.ceil(file.size / COMPRESSED_BYTES_PER_SECOND)
+
+  const channels = header.getUint16(22, true)
+  const sampleRate = header.getUint32(24, true)
+  const blockAlign = header.getUint16(32, true)
+  const bitsPerSample = header.getUint16(34, true)
+
+  // The declared byte rate is only a cross-check; the length comes from
+  // the fields that describe the samples themselves
+  const plausible = header.getUint32(12, false) === 0x666d7420 && // "fmt "
+    channels >= 1 && channels <= WAV_MAX_CHANNELS &&
+    sampleRate >= WAV_SAMPLE_RATES.min && sampleRate <= WAV_SAMPLE_RATES.max &&
+    WAV_BITS_PER_SAMPLE.includes(bitsPerSample) &&
+    blockAlign === channels * bitsPerSample / 8 &&
+    header.getUint32(28, true) === sampleRate * blockAlign
+
+  return plausible ? Math.ceil((file.size - 44) / (sampleRate * blockAlign)) : null
+}
+
+/**
+ * How much of the endpoint's quota a request uses
+ */
+export const measureRequest = async (endpoint: string, body: FormData | string | undefined): Promise<number> => {
+  if (endpoint === '/v1/transcriptions') {
+    const content = body instanceof FormData ? body.get('content') : null
+    if (!(content instanceof Blob)) return 1
+    // Validation refuses unreadable WAV headers; size is the fallback
+    const seconds = await audioSeconds(content)
+    return Math.max(1, seconds ?? Math.ceil(content.size / COMPRESSED_BYTES_PER_SECOND))
+  }
+
+  try {
+    const text = typeof body === 'string' ? JSON.parse(body).text : ''
+    return typeof text === 'string' ? [...text].length : 0
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * Record usage, or refuse it if it would go over today's limit.
+ * Pass negative units to give back usage for a failed request.
+ */
+export const consumeQuota = async (
+  admin: SupabaseClient,
+  userId: string,
+  endpoint: string,
+  units: number
+): Promise<QuotaResult> => {
+  const { limit, unit } = QUOTAS[endpoint]
+  const { data, error } = await admin
+    .rpc('consume_spitch_quota', {
+      p_user_id: userId,
+      p_endpoint: endpoint,
+      p_units: units,
+      p_limit: limit,
+    })
+    .single()
+
+  if (error) throw error
+  const result = data as { allowed: boolean; used: number }
+  return { allowed: result.allowed, used: Number(result.used), limit, unit }
+}
+
+/**
+ * Seconds until usage resets at midnight UTC
+ */
+export const secondsUntilReset = (now = new Date()) => {
+  const reset = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+  return Math.max(1, Math.ceil((reset - now.getTime()) / 1000))
+}
@@ -0,0 +1,190 @@
+import { audioSeconds } from './quota.ts'
+
+// Checks each endpoint's body before anything is cached, metered or
+// forwarded. Problems are reported per field so the client can say
+// exactly what was wrong.
+
+export interface FieldError {
+  field: string
+  message: string
+}
+
+const LANGUAGES = ['yo', 'ig', 'ha', 'en']
+
+// Mirrors VOICE_MAPPING in src/services/spitch.service.ts
+const VOICES: Record<string, string[]> = {
+  yo: ['segun', 'femi', 'sade', 'funmi'],
+  ig: ['obinna', 'ebuka', 'ngozi', 'amara'],
+  ha: ['aliyu', 'hasan', 'amina', 'zainab'],
+  en: ['john', 'jude', 'henry', 'lucy', 'lina', 'kani'],
+}
+
+const MODELS = ['legacy']
+
+export const MAX_SPEECH_CHARS = 1000
+export const MAX_DIACRITICS_CHARS = 2000
+export const MAX_TRANSLATE_CHARS = 2000
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024
+export const MAX_AUDIO_SECONDS = 300
+
+// Room for the multipart framing and the small text fields around the audio
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024
+
+const AUDIO_TYPES = [
+  'audio/wav',
+  'audio/x-wav',
+  'audio/wave',
+  'audio/mpeg',
+  'audio/mp3',
+  'audio/mp4',
+  'audio/m4a',
+  'audio/x-m4a',
+  'audio/ogg',
+  'audio/webm',
+  'audio/flac',
+]
+
+const JSON_ENDPOINTS = ['/v1/speech', '/v1/diacritics', '/v1/translate']
+
+type Fields = Record<string, unknown>
+
+const checkText = (errors: FieldError[], value: unknown, field: string, max: number) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push({ field, message: 'Required, and must be non-empty text' })
+  } else if ([...value].length > max) {
+    errors.push({ field, message: `Must be at most ${max} characters` })
+  }
+}
+
+const checkOneOf = (errors: FieldError[], value: unknown, field: string, allowed: string[], required = true) => {
+  if (value === undefined && !required) return
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    errors.push({ field, message: `Must be one of: ${allowed.join(', ')}` })
+  }
+}
+
+const checkKnownFields = (errors: FieldError[], body: Fields, known: string[]) => {
+  Object.keys(body).forEach(field => {
+    if (!known.includes(field)) errors.push({ field, message: 'Unknown field' })
+  })
+}
+
+const validateSpeech = (body: Fields, errors: FieldError[]) => {
+  checkKnownFields(errors, body, ['text', 'language', 'voice', 'model'])
+  checkText(errors, body.text, 'text', MAX_SPEECH_CHARS)
+  checkOneOf(errors, body.language, 'language', LANGUAGES)
+  checkOneOf(errors, body.model, 'model', MODELS, false)
+
+  if (body.voice !== undefined && typeof body.language === 'string' && VOICES[body.language]) {
+    checkOneOf(errors, body.voice, 'voice', VOICES[body.language])
+  }
+}
+
+const validateDiacritics = (body: Fields, errors: FieldError[]) => {
+  checkKnownFields(errors, body, ['text', 'language'])
+  checkText(errors, body.text, 'text', MAX_DIACRITICS_CHARS)
+  // Spitch only restores tone marks for Yoruba
+  checkOneOf(errors, body.language, 'language', ['yo'])
+}
+
+const validateTranslate = (body: Fields, errors: FieldError[]) => {
+  checkKnownFields(errors, body, ['text', 'source', 'target'])
+  checkText(errors, body.text, 'text', MAX_TRANSLATE_CHARS)
+  checkOneOf(errors, body.source, 'source', LANGUAGES)
+  checkOneOf(errors, body.target, 'target', LANGUAGES)
+  if (typeof body.source === 'string' && body.source === body.target) {
+    errors.push({ field: 'target', message: 'Must differ from source' })
+  } else if (body.source !== 'en' && body.target !== 'en') {
+    // Mirrors supportsSpitchTranslation in src/services/spitch.service.ts
+    errors.push({ field: 'target', message: 'Spitch translates to or from English only' })
+  }
+}
+
+const validateTranscription = async (form: FormData, errors: FieldError[]) => {
+  const content = form.get('content')
+  if (!(content instanceof Blob)) {
+    errors.push({ field: 'content', message: 'Required, and must be an audio file' })
+  } else {
+    const type = content.type.split(';')[0].trim().toLowerCase()
+    if (!AUDIO_TYPES.includes(type)) {
+      errors.push({ field: 'content', message: `Audio type must be one of: ${AUDIO_TYPES.join(', ')}` })
+    } else if (content.size === 0) {
+      errors.push({ field: 'content', message: 'The recording is empty' })
+    } else if (content.size > MAX_AUDIO_BYTES) {
+      errors.push({ field: 'content', message: `Audio must be at most ${MAX_AUDIO_BYTES / 1024 / 1024} MB` })
+    } else {
+      const seconds = await audioSeconds(content)
+      if (seconds === null) {
+        errors.push({ field: 'content', message: 'The WAV header describes an unsupported audio format' })
+      } else if (seconds > MAX_AUDIO_SECONDS) {
+        errors.push({ field: 'content', message: `Audio must be at most ${MAX_AUDIO_SECONDS} seconds long` })
+      }
+    }
+  }
+
+  checkOneOf(errors, form.get('language') ?? undefined, 'language', LANGUAGES)
+  checkOneOf(errors, form.get('model') ?? undefined, 'model', MODELS, false)
+
+  const specialWords = form.get('special_words')
+  if (specialWords !== null && (typeof specialWords !== 'string' || specialWords.length > 500)) {
+    errors.push({ field: 'special_words', message: 'Must be text of at most 500 characters' })
+  }
+
+  for (const field of form.keys()) {
+    if (!['content', 'language', 'model', 'special_words'].includes(field)) {
+      errors.push({ field, message: 'Unknown field' })
+    }
+  }
+}
+
+/**
+ * Reject an upload by its declared size before reading it into memory
+ */
+export const checkContentLength = (endpoint: string, req: Request): FieldError[] => {
+  const length = Number(req.headers.get('content-length'))
+  const limit = endpoint === '/v1/transcriptions'
+    ? MAX_AUDIO_BYTES + MULTIPART_OVERHEAD_BYTES
+    : MAX_DIACRITICS_CHARS * 4 + MULTIPART_OVERHEAD_BYTES
+  return Number.isFinite(length) && length > limit
+    ? [{ field: 'body', message: `Request body is too large (limit ${limit} bytes)` }]
+    : []
+}
+
+/**
+ * Field-level problems with a request body; empty when it may go ahead
+ */
+export const validateRequest = async (
+  endpoint: string,
+  contentType: string | null,
+  body: FormData | string | undefined
+): Promise<FieldError[]> => {
+  const errors: FieldError[] = []
+
+  if (endpoint === '/v1/transcriptions') {
+    if (!(body instanceof FormData)) {
+      return [{ field: 'Content-Type', message: 'Must be multipart/form-data' }]
+    }
+    await validateTranscription(body, errors)
+    return errors
+  }
+
+  if (!JSON_ENDPOINTS.includes(endpoint)) return errors
+  if (typeof body !== 'string' || !contentType?.includes('application/json')) {
+    return [{ field: 'Content-Type', message: 'Must be application/json' }]
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(body)
+  } catch {
+    return [{ field: 'body', message: 'Must be valid JSON' }]
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return [{ field: 'body', message: 'Must be a JSON object' }]
+  }
+
+  if (endpoint === '/v1/speech') validateSpeech(parsed as Fields, errors)
+  if (endpoint === '/v1/diacritics') validateDiacritics(parsed as Fields, errors)
+  if (endpoint === '/v1/translate') validateTranslate(parsed as Fields, errors)
+  return errors
+}
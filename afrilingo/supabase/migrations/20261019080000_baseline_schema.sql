@@ -0,0 +1,184 @@
+-- Baseline schema: the tables the app was built on, as they stood in
+-- production before the migrations that follow. Later migrations only
+-- alter these, so a fresh database (`supabase db reset`) needs this
+-- first. Production already has it; record it there with
+-- `supabase migration repair --status applied 20261019080000` instead
+-- of running it.
+
+create table if not exists public.languages (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  name text not null,
+  native_name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.lessons (
+  id uuid primary key default gen_random_uuid(),
+  language_id uuid not null references public.languages (id) on delete cascade,
+  title text not null,
+  description text not null,
+  lesson_order integer not null,
+  lesson_type text not null default 'vocabulary' check (
+    lesson_type in ('vocabulary', 'grammar', 'conversation', 'culture', 'pronunciation')
+  ),
+  difficulty integer not null default 1,
+  estimated_time integer not null default 10,
+  is_premium boolean not null default false,
+  xp_reward integer not null default 20,
+  cowrie_reward integer not null default 5,
+  cultural_context jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lessons_language_id_idx
+  on public.lessons (language_id, lesson_order);
+
+create table if not exists public.exercises (
+  id uuid primary key default gen_random_uuid(),
+  lesson_id uuid not null references public.lessons (id) on delete cascade,
+  question text not null,
+  correct_answer text not null,
+  options text[],
+  exercise_type text not null check (
+    exercise_type in (
+      'multiple_choice',
+      'translation',
+      'pronunciation',
+      'fill_blank',
+      'conversation'
+    )
+  ),
+  explanation text,
+  audio_url text,
+  exercise_order integer not null,
+  points integer not null default 10,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists exercises_lesson_id_idx
+  on public.exercises (lesson_id, exercise_order);
+
+create table if not exists public.vocabulary (
+  id uuid primary key default gen_random_uuid(),
+  lesson_id uuid not null references public.lessons (id) on delete cascade,
+  word text not null,
+  translation text not null,
+  pronunciation text,
+  audio_url text,
+  display_order integer not null default 1,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists vocabulary_lesson_id_idx
+  on public.vocabulary (lesson_id, display_order);
+
+create table if not exists public.achievements (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  description text not null,
+  xp_reward integer not null default 0,
+  cowrie_reward integer not null default 0,
+  requirement_type text not null,
+  requirement_value integer not null default 1,
+  created_at timestamptz not null default now()
+);
+
+-- One row per user, created by the client on first sign-in
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text,
+  username text,
+  total_xp integer default 0,
+  cowrie_shells integer default 0,
+  current_streak integer default 0,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.user_progress (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  lesson_id uuid not null references public.lessons (id),
+  completed boolean not null default false,
+  score integer not null default 0,
+  xp_earned integer not null default 0,
+  cowries_earned integer not null default 0,
+  started_at timestamptz,
+  completed_at timestamptz,
+  unique (user_id, lesson_id)
+);
+
+create table if not exists public.exercise_attempts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  exercise_id uuid not null references public.exercises (id) on delete cascade,
+  response jsonb,
+  is_correct boolean not null default false,
+  pronunciation_score numeric,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists exercise_attempts_user_id_idx
+  on public.exercise_attempts (user_id, created_at);
+
+alter table public.languages enable row level security;
+alter table public.lessons enable row level security;
+alter table public.exercises enable row level security;
+alter table public.vocabulary enable row level security;
+alter table public.achievements enable row level security;
+alter table public.profiles enable row level security;
+alter table public.user_progress enable row level security;
+alter table public.exercise_attempts enable row level security;
+
+-- Course content is public and written only with the service role key
+create policy "Anyone can read languages"
+  on public.languages for select
+  using (true);
+
+create policy "Anyone can read lessons"
+  on public.lessons for select
+  using (true);
+
+create policy "Anyone can read exercises"
+  on public.exercises for select
+  using (true);
+
+create policy "Anyone can read vocabulary"
+  on public.vocabulary for select
+  using (true);
+
+create policy "Anyone can read achievements"
+  on public.achievements for select
+  using (true);
+
+create policy "Users can read their own profile"
+  on public.profiles for select
+  using (auth.uid() = id);
+
+create policy "Users can create their own profile"
+  on public.profiles for insert
+  with check (auth.uid() = id);
+
+create policy "Users can update their own profile"
+  on public.profiles for update
+  using (auth.uid() = id);
+
+create policy "Users can read their own progress"
+  on public.user_progress for select
+  using (auth.uid() = user_id);
+
+create policy "Users can record their own progress"
+  on public.user_progress for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own progress"
+  on public.user_progress for update
+  using (auth.uid() = user_id);
+
+create policy "Users can read their own attempts"
+  on public.exercise_attempts for select
+  using (auth.uid() = user_id);
+
+create policy "Users can record their own attempts"
+  on public.exercise_attempts for insert
+  with check (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Idempotency key for exercise attempts recorded while offline.
+-- The client generates it when the attempt is first made, so replaying
+-- the same queued attempt can't insert a second row.
+alter table public.exercise_attempts
+  add column if not exists client_request_id uuid;
+
+create unique index if not exists exercise_attempts_client_request_id_key
+  on public.exercise_attempts (client_request_id);
@@ -0,0 +1,278 @@
+-- Append-only ledger of XP and cowrie grants.
+-- profiles.total_xp and profiles.cowrie_shells become a projection of
+-- this table: they are only ever changed by the trigger below, and
+-- grants are only ever written by grant_reward(), which checks each
+-- one against its source (exercise attempt, lesson completion, ...).
+
+create table if not exists public.reward_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  source_type text not null check (
+    source_type in ('opening_balance', 'exercise', 'lesson', 'practice', 'achievement', 'streak', 'level_up')
+  ),
+  source_id text not null,
+  xp integer not null default 0,
+  cowries integer not null default 0,
+  idempotency_key text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, idempotency_key)
+);
+
+create index if not exists reward_events_user_created_idx
+  on public.reward_events (user_id, created_at desc);
+
+create index if not exists reward_events_user_source_idx
+  on public.reward_events (user_id, source_type, source_id);
+
+alter table public.reward_events enable row level security;
+
+-- Read-only for clients; inserts happen inside grant_reward()
+create policy "Users can read their own reward events"
+  on public.reward_events for select
+  using (auth.uid() = user_id);
+
+-- Carry existing balances over before the projection trigger exists
+insert into public.reward_events (user_id, source_type, source_id, xp, cowries, idempotency_key)
+select id, 'opening_balance', 'migration', coalesce(total_xp, 0), coalesce(cowrie_shells, 0), 'opening_balance'
+from public.profiles
+where coalesce(total_xp, 0) <> 0 or coalesce(cowrie_shells, 0) <> 0
+on conflict (user_id, idempotency_key) do nothing;
+
+-- Keep the profile totals in step with the ledger
+create or replace function public.apply_reward_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform set_config('afrilingo.ledger_write', 'on', true);
+  update public.profiles
+     set total_xp = coalesce(total_xp, 0) + new.xp,
+         cowrie_shells = coalesce(cowrie_shells, 0) + new.cowries
+   where id = new.user_id;
+  perform set_config('afrilingo.ledger_write', 'off', true);
+  return new;
+end;
+$$;
+
+drop trigger if exists reward_events_apply on public.reward_events;
+create trigger reward_events_apply
+  after insert on public.reward_events
+  for each row execute function public.apply_reward_event();
+
+-- Clients may still update their profile, but not their balances
+create or replace function public.protect_reward_totals()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('afrilingo.ledger_write', true), 'off') <> 'on' then
+    new.total_xp := old.total_xp;
+    new.cowrie_shells := old.cowrie_shells;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_reward_totals on public.profiles;
+create trigger profiles_protect_reward_totals
+  before update on public.profiles
+  for each row execute function public.protect_reward_totals();
+
+-- Whether an achievement's requirement is met, judged from server data
+create or replace function public.achievement_requirement_met(
+  p_user_id uuid,
+  p_requirement_type text,
+  p_requirement_value integer
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case p_requirement_type
+    when 'xp_milestone' then
+      (select coalesce(sum(xp), 0) from reward_events where user_id = p_user_id) >= p_requirement_value
+    when 'streak_milestone' then
+      (select coalesce(current_streak, 0) from profiles where id = p_user_id) >= p_requirement_value
+    when 'lesson_completion' then
+      (select count(*) from user_progress where user_id = p_user_id and completed) >= p_requirement_value
+    when 'perfect_score' then
+      exists (select 1 from user_progress where user_id = p_user_id and completed and score >= p_requirement_value)
+    when 'languages_started' then
+      (select count(distinct l.language_id)
+         from user_progress up
+         join lessons l on l.id = up.lesson_id
+        where up.user_id = p_user_id) >= p_requirement_value
+    else false
+  end;
+$$;
+
+-- Validate and record a single grant. Safe to call repeatedly with the
+-- same idempotency key: the second call is a no-op.
+create or replace function public.grant_reward(
+  p_source_type text,
+  p_source_id text,
+  p_idempotency_key text,
+  p_amount integer default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_xp integer := 0;
+  v_cowries integer := 0;
+  v_previous_xp integer;
+  v_previous_cowries integer;
+  v_old_total integer;
+  v_level_bonus integer := 0;
+  v_levels_gained integer := 0;
+  v_level integer;
+  v_score integer;
+  v_lesson record;
+  v_achievement record;
+  v_streak integer;
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  -- Serialise grants per user so concurrent calls can't double-count
+  select coalesce(total_xp, 0) into v_old_total
+    from profiles where id = v_user_id for update;
+
+  if exists (
+    select 1 from reward_events
+     where user_id = v_user_id and idempotency_key = p_idempotency_key
+  ) then
+    return jsonb_build_object('granted', false, 'reason', 'duplicate');
+  end if;
+
+  if p_source_type = 'exercise' then
+    -- First correct answer to an exercise earns its points, once
+    if not exists (
+      select 1 from exercise_attempts
+       where user_id = v_user_id and exercise_id = p_source_id::uuid and is_correct
+    ) then
+      return jsonb_build_object('granted', false, 'reason', 'no_correct_attempt');
+    end if;
+    if exists (
+      select 1 from reward_events
+       where user_id = v_user_id and source_type = 'exercise' and source_id = p_source_id
+    ) then
+      return jsonb_build_object('granted', false, 'reason', 'already_granted');
+    end if;
+    select coalesce(points, 0) into v_xp from exercises where id = p_source_id::uuid;
+
+  elsif p_source_type = 'lesson' then
+    -- Rewards scale with the best recorded score; improving a score
+    -- earns only the difference
+    select up.score, l.xp_reward, l.cowrie_reward into v_lesson
+      from user_progress up
+      join lessons l on l.id = up.lesson_id
+     where up.user_id = v_user_id and up.lesson_id = p_source_id::uuid and up.completed;
+    if not found then
+      return jsonb_build_object('granted', false, 'reason', 'lesson_not_completed');
+    end if;
+
+    select coalesce(sum(xp), 0), coalesce(sum(cowries), 0)
+      into v_previous_xp, v_previous_cowries
+      from reward_events
+     where user_id = v_user_id and source_type = 'lesson' and source_id = p_source_id;
+
+    v_xp := greatest(round(v_lesson.xp_reward * v_lesson.score / 100.0)::integer - v_previous_xp, 0);
+    v_cowries := greatest(round(v_lesson.cowrie_reward * v_lesson.score / 100.0)::integer - v_previous_cowries, 0);
+    if v_xp = 0 and v_cowries = 0 then
+      return jsonb_build_object('granted', false, 'reason', 'already_granted');
+    end if;
+
+  elsif p_source_type = 'practice' then
+    -- Free practice can't be verified, so it is capped per grant and per day
+    v_score := least(greatest(coalesce(p_amount, 0), 0), 10);
+    select coalesce(sum(xp), 0), coalesce(sum(cowries), 0)
+      into v_previous_xp, v_previous_cowries
+      from reward_events
+     where user_id = v_user_id and source_type = 'practice'
+       and created_at >= date_trunc('day', now());
+
+    v_xp := least(v_score, greatest(100 - v_previous_xp, 0));
+    v_cowries := case when v_score >= 8 and v_previous_cowries < 10 then 1 else 0 end;
+    if v_xp = 0 and v_cowries = 0 then
+      return jsonb_build_object('granted', false, 'reason', 'daily_limit');
+    end if;
+
+  elsif p_source_type = 'achievement' then
+    select id, xp_reward, cowrie_reward, requirement_type, requirement_value into v_achievement
+      from achievements where id = p_source_id::uuid;
+    if not found then
+      return jsonb_build_object('granted', false, 'reason', 'unknown_achievement');
+    end if;
+    if exists (
+      select 1 from reward_events
+       where user_id = v_user_id and source_type = 'achievement' and source_id = p_source_id
+    ) then
+      return jsonb_build_object('granted', false, 'reason', 'already_granted');
+    end if;
+    if not achievement_requirement_met(v_user_id, v_achievement.requirement_type, v_achievement.requirement_value) then
+      return jsonb_build_object('granted', false, 'reason', 'requirement_not_met');
+    end if;
+    v_xp := coalesce(v_achievement.xp_reward, 0);
+    v_cowries := coalesce(v_achievement.cowrie_reward, 0);
+
+  elsif p_source_type = 'streak' then
+    -- Bonus for every 7th consecutive day, once per milestone reached
+    v_streak := p_source_id::integer;
+    if v_streak <= 0 or v_streak % 7 <> 0
+       or (select coalesce(current_streak, 0) from profiles where id = v_user_id) < v_streak then
+      return jsonb_build_object('granted', false, 'reason', 'requirement_not_met');
+    end if;
+    if exists (
+      select 1 from reward_events
+       where user_id = v_user_id and source_type = 'streak' and source_id = p_source_id
+         and created_at > now() - interval '7 days'
+    ) then
+      return jsonb_build_object('granted', false, 'reason', 'already_granted');
+    end if;
+    v_cowries := 5;
+
+  else
+    raise exception 'Unknown reward source: %', p_source_type using errcode = '22023';
+  end if;
+
+  insert into reward_events (user_id, source_type, source_id, xp, cowries, idempotency_key)
+  values (v_user_id, p_source_type, p_source_id, v_xp, v_cowries, p_idempotency_key);
+
+  -- 10 bonus cowries for each level crossed (100 XP per level), once per level
+  for v_level in (v_old_total / 100 + 2) .. ((v_old_total + v_xp) / 100 + 1) loop
+    insert into reward_events (user_id, source_type, source_id, xp, cowries, idempotency_key)
+    values (v_user_id, 'level_up', v_level::text, 0, 10, 'level_up:' || v_level)
+    on conflict (user_id, idempotency_key) do nothing;
+    if found then
+      v_level_bonus := v_level_bonus + 10;
+      v_levels_gained := v_levels_gained + 1;
+    end if;
+  end loop;
+
+  select jsonb_build_object(
+    'granted', true,
+    'xp', v_xp,
+    'cowries', v_cowries + v_level_bonus,
+    'levelsGained', v_levels_gained,
+    'totalXp', coalesce(total_xp, 0),
+    'totalCowries', coalesce(cowrie_shells, 0)
+  ) into v_result
+    from profiles where id = v_user_id;
+
+  return v_result;
+end;
+$$;
+
+revoke all on function public.achievement_requirement_met(uuid, text, integer) from public, anon, authenticated;
+revoke all on function public.grant_reward(text, text, text, integer) from public;
+grant execute on function public.grant_reward(text, text, text, integer) to authenticated;
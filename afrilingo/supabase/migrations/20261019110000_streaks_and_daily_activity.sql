@@ -0,0 +1,458 @@
+-- Timezone-aware streaks.
+-- A learner's day is their local calendar day, taken from the IANA
+-- timezone on their profile. Studying counts as activity for that day,
+-- whether or not it earns anything, and so does any earned reward;
+-- streaks, freezes and the daily history are maintained here on the
+-- server, and the client only reads them.
+
+alter table public.profiles
+  add column if not exists timezone text not null default 'UTC',
+  add column if not exists current_streak integer not null default 0,
+  add column if not exists longest_streak integer not null default 0,
+  add column if not exists streak_freezes integer not null default 0,
+  add column if not exists last_activity_date date;
+
+-- Reject timezones Postgres doesn't know, so day boundaries are always computable
+create or replace function public.validate_profile_timezone()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not exists (select 1 from pg_timezone_names where name = new.timezone) then
+    raise exception 'Unknown timezone: %', new.timezone using errcode = '22023';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_validate_timezone on public.profiles;
+create trigger profiles_validate_timezone
+  before insert or update of timezone on public.profiles
+  for each row execute function public.validate_profile_timezone();
+
+-- Streak columns are owned by the functions below
+create or replace function public.protect_streak_fields()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('afrilingo.streak_write', true), 'off') <> 'on' then
+    new.current_streak := old.current_streak;
+    new.longest_streak := old.longest_streak;
+    new.streak_freezes := old.streak_freezes;
+    new.last_activity_date := old.last_activity_date;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_streak_fields on public.profiles;
+create trigger profiles_protect_streak_fields
+  before update on public.profiles
+  for each row execute function public.protect_streak_fields();
+
+-- One row per learner per local day they were active (or froze)
+create table if not exists public.daily_activity (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  activity_date date not null,
+  xp integer not null default 0,
+  events integer not null default 0,
+  freeze_used boolean not null default false,
+  primary key (user_id, activity_date)
+);
+
+alter table public.daily_activity enable row level security;
+
+create policy "Users can read their own daily activity"
+  on public.daily_activity for select
+  using (auth.uid() = user_id);
+
+-- Buying a freeze is recorded in the ledger as negative cowries
+alter table public.reward_events drop constraint if exists reward_events_source_type_check;
+alter table public.reward_events add constraint reward_events_source_type_check check (
+  source_type in ('opening_balance', 'exercise', 'lesson', 'practice', 'achievement', 'streak', 'level_up', 'streak_freeze')
+);
+
+-- The learner's current local date
+create or replace function public.local_today(p_user_id uuid)
+returns date
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (now() at time zone coalesce((select timezone from profiles where id = p_user_id), 'UTC'))::date;
+$$;
+
+-- Advance the streak for activity on p_day. Missed days are covered by
+-- freezes if enough are held; otherwise the streak restarts at 1.
+create or replace function public.advance_streak(p_user_id uuid, p_day date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_profile record;
+  v_missed integer := 0;
+  v_streak integer;
+  v_freezes integer;
+begin
+  select current_streak, longest_streak, streak_freezes, last_activity_date into v_profile
+    from profiles where id = p_user_id for update;
+
+  if v_profile.last_activity_date is not null and v_profile.last_activity_date >= p_day then
+    return;
+  end if;
+
+  v_freezes := v_profile.streak_freezes;
+
+  if v_profile.last_activity_date is null then
+    v_streak := 1;
+  else
+    v_missed := p_day - v_profile.last_activity_date - 1;
+    if v_missed <= v_freezes then
+      v_streak := v_profile.current_streak + 1;
+      v_freezes := v_freezes - v_missed;
+
+      insert into daily_activity (user_id, activity_date, freeze_used)
+      select p_user_id, day::date, true
+        from generate_series(v_profile.last_activity_date + 1, p_day - 1, interval '1 day') as day
+      on conflict (user_id, activity_date) do update set freeze_used = true;
+    else
+      v_streak := 1;
+    end if;
+  end if;
+
+  perform set_config('afrilingo.streak_write', 'on', true);
+  update profiles
+     set current_streak = v_streak,
+         longest_streak = greatest(coalesce(longest_streak, 0), v_streak),
+         streak_freezes = v_freezes,
+         last_activity_date = p_day
+   where id = p_user_id;
+  perform set_config('afrilingo.streak_write', 'off', true);
+
+  -- 5 bonus cowries on every 7th consecutive day
+  if v_streak % 7 = 0 then
+    insert into reward_events (user_id, source_type, source_id, xp, cowries, idempotency_key)
+    values (p_user_id, 'streak', v_streak::text, 0, 5, 'streak:' || p_day)
+    on conflict (user_id, idempotency_key) do nothing;
+  end if;
+end;
+$$;
+
+-- Count one event, and any XP it earned, on the learner's local day of p_at
+create or replace function public.log_daily_activity(p_user_id uuid, p_at timestamptz, p_xp integer)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_day date;
+begin
+  select (p_at at time zone coalesce(timezone, 'UTC'))::date into v_day
+    from profiles where id = p_user_id;
+
+  insert into daily_activity (user_id, activity_date, xp, events)
+  values (p_user_id, v_day, p_xp, 1)
+  on conflict (user_id, activity_date) do update
+    set xp = daily_activity.xp + excluded.xp,
+        events = daily_activity.events + 1;
+
+  perform advance_streak(p_user_id, v_day);
+end;
+$$;
+
+-- Earned rewards count as activity for the learner's local day
+create or replace function public.record_daily_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform log_daily_activity(new.user_id, new.created_at, new.xp);
+  return new;
+end;
+$$;
+
+-- Studying counts too, rewarded or not: repeats, already-rewarded
+-- exercises, reviews. TG_ARGV[0] names the column holding when it
+-- happened, so replayed offline work lands on its own day; a time in
+-- the future is taken as now.
+create or replace function public.record_study_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform log_daily_activity(
+    new.user_id,
+    least(coalesce((to_jsonb(new) ->> tg_argv[0])::timestamptz, now()), now()),
+    0
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists exercise_attempts_record_activity on public.exercise_attempts;
+create trigger exercise_attempts_record_activity
+  after insert on public.exercise_attempts
+  for each row execute function public.record_study_activity('created_at');
+
+drop trigger if exists reward_events_record_activity on public.reward_events;
+create trigger reward_events_record_activity
+  after insert on public.reward_events
+  for each row
+  when (new.source_type in ('exercise', 'lesson', 'practice', 'achievement'))
+  execute function public.record_daily_activity();
+
+-- The streak as it stands now: a streak whose last active day is
+-- further back than yesterday (after freezes) is already broken
+create or replace function public.get_streak()
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_profile record;
+  v_today date;
+  v_current integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select timezone, current_streak, longest_streak, streak_freezes, last_activity_date into v_profile
+    from profiles where id = v_user_id;
+
+  v_today := local_today(v_user_id);
+  v_current := case
+    when v_profile.last_activity_date is null then 0
+    when v_today - v_profile.last_activity_date - 1 <= v_profile.streak_freezes then v_profile.current_streak
+    else 0
+  end;
+
+  return jsonb_build_object(
+    'currentStreak', v_current,
+    'longestStreak', coalesce(v_profile.longest_streak, 0),
+    'streakFreezes', coalesce(v_profile.streak_freezes, 0),
+    'lastActivityDate', v_profile.last_activity_date,
+    'today', v_today,
+    'timezone', v_profile.timezone,
+    'activeToday', v_profile.last_activity_date = v_today
+  );
+end;
+$$;
+
+-- Spend cowries on a streak freeze
+create or replace function public.purchase_streak_freeze(p_idempotency_key text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_price constant integer := 50;
+  v_max_freezes constant integer := 2;
+  v_profile record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  select cowrie_shells, streak_freezes into v_profile
+    from profiles where id = v_user_id for update;
+
+  if exists (
+    select 1 from reward_events
+     where user_id = v_user_id and idempotency_key = p_idempotency_key
+  ) then
+    return jsonb_build_object('purchased', false, 'reason', 'duplicate');
+  end if;
+  if v_profile.streak_freezes >= v_max_freezes then
+    return jsonb_build_object('purchased', false, 'reason', 'limit_reached');
+  end if;
+  if coalesce(v_profile.cowrie_shells, 0) < v_price then
+    return jsonb_build_object('purchased', false, 'reason', 'insufficient_cowries');
+  end if;
+
+  insert into reward_events (user_id, source_type, source_id, xp, cowries, idempotency_key)
+  values (v_user_id, 'streak_freeze', (v_profile.streak_freezes + 1)::text, 0, -v_price, p_idempotency_key);
+
+  perform set_config('afrilingo.streak_write', 'on', true);
+  update profiles set streak_freezes = streak_freezes + 1 where id = v_user_id;
+  perform set_config('afrilingo.streak_write', 'off', true);
+
+  return (
+    select jsonb_build_object(
+      'purchased', true,
+      'streakFreezes', streak_freezes,
+      'totalCowries', cowrie_shells
+    )
+    from profiles where id = v_user_id
+  );
+end;
+$$;
+
+-- Streak bonuses are now granted by advance_streak(); drop the
+-- client-callable 'streak' source from grant_reward()
+create or replace function public.grant_reward(
+  p_source_type text,
+  p_source_id text,
+  p_idempotency_key text,
+  p_amount integer default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_xp integer := 0;
+  v_cowries integer := 0;
+  v_previous_xp integer;
+  v_previous_cowries integer;
+  v_old_total integer;
+  v_level_bonus integer := 0;
+  v_levels_gained integer := 0;
+  v_level integer;
+  v_score integer;
+  v_lesson record;
+  v_achievement record;
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  -- Serialise grants per user so concurrent calls can't double-count
+  select coalesce(total_xp, 0) into v_old_total
+    from profiles where id = v_user_id for update;
+
+  if exists (
+    select 1 from reward_events
+     where user_id = v_user_id and idempotency_key = p_idempotency_key
+  ) then
+    return jsonb_build_object('granted', false, 'reason', 'duplicate');
+  end if;
+
+  if p_source_type = 'exercise' then
+    -- First correct answer to an exercise earns its points, once
+    if not exists (
+      select 1 from exercise_attempts
+       where user_id = v_user_id and exercise_id = p_source_id::uuid and is_correct
+    ) then
+      return jsonb_build_object('granted', false, 'reason', 'no_correct_attempt');
+    end if;
+    if exists (
+      select 1 from reward_events
+       where user_id = v_user_id and source_type = 'exercise' and source_id = p_source_id
+    ) then
+      return jsonb_build_object('granted', false, 'reason', 'already_granted');
+    end if;
+    select coalesce(points, 0) into v_xp from exercises where id = p_source_id::uuid;
+
+  elsif p_source_type = 'lesson' then
+    -- Rewards scale with the best recorded score; improving a score
+    -- earns only the difference
+    select up.score, l.xp_reward, l.cowrie_reward into v_lesson
+      from user_progress up
+      join lessons l on l.id = up.lesson_id
+     where up.user_id = v_user_id and up.lesson_id = p_source_id::uuid and up.completed;
+    if not found then
+      return jsonb_build_object('granted', false, 'reason', 'lesson_not_completed');
+    end if;
+
+    select coalesce(sum(xp), 0), coalesce(sum(cowries), 0)
+      into v_previous_xp, v_previous_cowries
+      from reward_events
+     where user_id = v_user_id and source_type = 'lesson' and source_id = p_source_id;
+
+    v_xp := greatest(round(v_lesson.xp_reward * v_lesson.score / 100.0)::integer - v_previous_xp, 0);
+    v_cowries := greatest(round(v_lesson.cowrie_reward * v_lesson.score / 100.0)::integer - v_previous_cowries, 0);
+    if v_xp = 0 and v_cowries = 0 then
+      return jsonb_build_object('granted', false, 'reason', 'already_granted');
+    end if;
+
+  elsif p_source_type = 'practice' then
+    -- Free practice can't be verified, so it is capped per grant and per
+    -- local day
+    v_score := least(greatest(coalesce(p_amount, 0), 0), 10);
+    select coalesce(sum(xp), 0), coalesce(sum(cowries), 0)
+      into v_previous_xp, v_previous_cowries
+      from reward_events
+     where user_id = v_user_id and source_type = 'practice'
+       and created_at >= (local_today(v_user_id)::timestamp at time zone
+         (select timezone from profiles where id = v_user_id));
+
+    v_xp := least(v_score, greatest(100 - v_previous_xp, 0));
+    v_cowries := case when v_score >= 8 and v_previous_cowries < 10 then 1 else 0 end;
+    if v_xp = 0 and v_cowries = 0 then
+      return jsonb_build_object('granted', false, 'reason', 'daily_limit');
+    end if;
+
+  elsif p_source_type = 'achievement' then
+    select id, xp_reward, cowrie_reward, requirement_type, requirement_value into v_achievement
+      from achievements where id = p_source_id::uuid;
+    if not found then
+      return jsonb_build_object('granted', false, 'reason', 'unknown_achievement');
+    end if;
+    if exists (
+      select 1 from reward_events
+       where user_id = v_user_id and source_type = 'achievement' and source_id = p_source_id
+    ) then
+      return jsonb_build_object('granted', false, 'reason', 'already_granted');
+    end if;
+    if not achievement_requirement_met(v_user_id, v_achievement.requirement_type, v_achievement.requirement_value) then
+      return jsonb_build_object('granted', false, 'reason', 'requirement_not_met');
+    end if;
+    v_xp := coalesce(v_achievement.xp_reward, 0);
+    v_cowries := coalesce(v_achievement.cowrie_reward, 0);
+
+  else
+    raise exception 'Unknown reward source: %', p_source_type using errcode = '22023';
+  end if;
+
+  insert into reward_events (user_id, source_type, source_id, xp, cowries, idempotency_key)
+  values (v_user_id, p_source_type, p_source_id, v_xp, v_cowries, p_idempotency_key);
+
+  -- 10 bonus cowries for each level crossed (100 XP per level), once per level
+  for v_level in (v_old_total / 100 + 2) .. ((v_old_total + v_xp) / 100 + 1) loop
+    insert into reward_events (user_id, source_type, source_id, xp, cowries, idempotency_key)
+    values (v_user_id, 'level_up', v_level::text, 0, 10, 'level_up:' || v_level)
+    on conflict (user_id, idempotency_key) do nothing;
+    if found then
+      v_level_bonus := v_level_bonus + 10;
+      v_levels_gained := v_levels_gained + 1;
+    end if;
+  end loop;
+
+  select jsonb_build_object(
+    'granted', true,
+    'xp', v_xp,
+    'cowries', v_cowries + v_level_bonus,
+    'levelsGained', v_levels_gained,
+    'totalXp', coalesce(total_xp, 0),
+    'totalCowries', coalesce(cowrie_shells, 0)
+  ) into v_result
+    from profiles where id = v_user_id;
+
+  return v_result;
+end;
+$$;
+
+-- Internal helpers take any user ID, so clients must not call them
+revoke all on function public.local_today(uuid) from public, anon, authenticated;
+revoke all on function public.advance_streak(uuid, date) from public, anon, authenticated;
+revoke all on function public.log_daily_activity(uuid, timestamptz, integer) from public, anon, authenticated;
+grant execute on function public.get_streak() to authenticated;
+grant execute on function public.purchase_streak_freeze(text) to authenticated;
@@ -0,0 +1,481 @@
+-- Declarative achievements.
+-- Each achievement row carries its unlock criteria as JSON, evaluated
+-- on the server after every reward event. Unlocks are recorded in
+-- user_achievements and their rewards go through the reward ledger.
+--
+-- Criteria DSL:
+--   { "metric": "<metric>", "gte": <n>, "language": "<code>"? }
+--   { "all": [<criteria>, ...] }
+--   { "any": [<criteria>, ...] }
+--
+-- Metrics: xp, streak, longest_streak, lessons_completed,
+-- perfect_scores, languages_started, languages_with_completed_lesson,
+-- cultural_items. "language" narrows lessons_completed,
+-- perfect_scores and cultural_items to one language code.
+
+alter table public.achievements
+  add column if not exists icon text not null default '🏆',
+  add column if not exists criteria jsonb;
+
+-- Carry the old single-requirement columns over to the DSL
+update public.achievements
+   set criteria = case requirement_type
+     when 'xp_milestone' then jsonb_build_object('metric', 'xp', 'gte', requirement_value)
+     when 'streak_milestone' then jsonb_build_object('metric', 'longest_streak', 'gte', requirement_value)
+     when 'perfect_score' then jsonb_build_object('metric', 'perfect_scores', 'gte', 1)
+     when 'languages_started' then jsonb_build_object('metric', 'languages_started', 'gte', requirement_value)
+     when 'cultural_explorer' then jsonb_build_object('metric', 'cultural_items', 'gte', requirement_value)
+     else jsonb_build_object('metric', 'lessons_completed', 'gte', requirement_value)
+   end,
+       icon = case requirement_type
+     when 'xp_milestone' then '⚡'
+     when 'streak_milestone' then '🔥'
+     when 'perfect_score' then '💯'
+     when 'languages_started' then '🌍'
+     when 'cultural_explorer' then '🏺'
+     else '📚'
+   end
+ where criteria is null;
+
+-- Rows seeded with a stand-in requirement_type
+update public.achievements
+   set criteria = '{"metric": "perfect_scores", "gte": 1}', icon = '💯'
+ where name = 'Perfect Score';
+update public.achievements
+   set criteria = '{"metric": "languages_with_completed_lesson", "gte": 3}', icon = '🌍'
+ where name = 'Language Explorer';
+
+alter table public.achievements alter column criteria set not null;
+
+create table if not exists public.user_achievements (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  achievement_id uuid not null references public.achievements (id) on delete cascade,
+  unlocked_at timestamptz not null default now(),
+  primary key (user_id, achievement_id)
+);
+
+alter table public.user_achievements enable row level security;
+
+create policy "Users can read their own achievements"
+  on public.user_achievements for select
+  using (auth.uid() = user_id);
+
+-- Achievements granted under the previous scheme count as unlocked
+insert into public.user_achievements (user_id, achievement_id, unlocked_at)
+select re.user_id, a.id, re.created_at
+  from public.reward_events re
+  join public.achievements a on a.id::text = re.source_id
+ where re.source_type = 'achievement'
+on conflict do nothing;
+
+-- Cultural content that counts towards cultural_items: the assistant's
+-- suggested topics and one story per level, in each language. Keys
+-- match CulturalAssistant and InteractiveStory.
+create table if not exists public.cultural_items (
+  item_key text not null,
+  language text not null,
+  primary key (item_key, language)
+);
+
+alter table public.cultural_items enable row level security;
+
+create policy "Anyone can read cultural items"
+  on public.cultural_items for select
+  using (true);
+
+insert into public.cultural_items (item_key, language)
+select k.item_key, l.language
+  from (values
+    ('assistant:greeting-elders'),
+    ('assistant:kola-nuts'),
+    ('assistant:proverbs'),
+    ('assistant:naming-ceremonies'),
+    ('story:beginner'),
+    ('story:intermediate'),
+    ('story:advanced')
+  ) as k (item_key)
+  cross join (values ('yo'), ('ig'), ('ha')) as l (language)
+on conflict do nothing;
+
+-- Cultural items a learner has explored
+create table if not exists public.cultural_explorations (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  item_key text not null,
+  language text not null,
+  explored_at timestamptz not null default now(),
+  primary key (user_id, item_key, language),
+  foreign key (item_key, language) references public.cultural_items (item_key, language)
+);
+
+alter table public.cultural_explorations enable row level security;
+
+create policy "Users can read their own cultural explorations"
+  on public.cultural_explorations for select
+  using (auth.uid() = user_id);
+
+-- Current value of one metric
+create or replace function public.achievement_metric(
+  p_user_id uuid,
+  p_metric text,
+  p_language text default null
+)
+returns integer
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  case p_metric
+    when 'xp' then
+      return (select coalesce(total_xp, 0) from profiles where id = p_user_id);
+    when 'streak' then
+      return (select coalesce(current_streak, 0) from profiles where id = p_user_id);
+    when 'longest_streak' then
+      return (select coalesce(longest_streak, 0) from profiles where id = p_user_id);
+    when 'lessons_completed' then
+      return (
+        select count(*)
+          from user_progress up
+          join lessons l on l.id = up.lesson_id
+          join languages lang on lang.id = l.language_id
+         where up.user_id = p_user_id and up.completed
+           and (p_language is null or lang.code = p_language)
+      );
+    when 'perfect_scores' then
+      return (
+        select count(*)
+          from user_progress up
+          join lessons l on l.id = up.lesson_id
+          join languages lang on lang.id = l.language_id
+         where up.user_id = p_user_id and up.completed and up.score >= 100
+           and (p_language is null or lang.code = p_language)
+      );
+    when 'languages_started' then
+      return (
+        select count(distinct l.language_id)
+          from user_progress up
+          join lessons l on l.id = up.lesson_id
+         where up.user_id = p_user_id
+      );
+    when 'languages_with_completed_lesson' then
+      return (
+        select count(distinct l.language_id)
+          from user_progress up
+          join lessons l on l.id = up.lesson_id
+         where up.user_id = p_user_id and up.completed
+      );
+    when 'cultural_items' then
+      return (
+        select count(*) from cultural_explorations
+         where user_id = p_user_id and (p_language is null or language = p_language)
+      );
+    else
+      raise exception 'Unknown achievement metric: %', p_metric using errcode = '22023';
+  end case;
+end;
+$$;
+
+-- Whether a criteria document holds for a learner
+create or replace function public.achievement_criteria_met(p_user_id uuid, p_criteria jsonb)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_child jsonb;
+begin
+  if p_criteria ? 'all' then
+    for v_child in select * from jsonb_array_elements(p_criteria -> 'all') loop
+      if not achievement_criteria_met(p_user_id, v_child) then
+        return false;
+      end if;
+    end loop;
+    return true;
+  end if;
+
+  if p_criteria ? 'any' then
+    for v_child in select * from jsonb_array_elements(p_criteria -> 'any') loop
+      if achievement_criteria_met(p_user_id, v_child) then
+        return true;
+      end if;
+    end loop;
+    return false;
+  end if;
+
+  return achievement_metric(p_user_id, p_criteria ->> 'metric', p_criteria ->> 'language')
+    >= (p_criteria ->> 'gte')::integer;
+end;
+$$;
+
+-- Write one ledger entry and the level-up bonuses it earns: 10 cowries
+-- for each level crossed (100 XP per level), once per level. Every XP
+-- grant goes through here so none skips the bonus.
+create or replace function public.record_reward(
+  p_user_id uuid,
+  p_source_type text,
+  p_source_id text,
+  p_xp integer,
+  p_cowries integer,
+  p_idempotency_key text,
+  out inserted boolean,
+  out levels_gained integer,
+  out level_bonus integer
+)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old_total integer;
+  v_level integer;
+begin
+  levels_gained := 0;
+  level_bonus := 0;
+
+  -- Serialise grants per user so concurrent calls can't double-count
+  select coalesce(total_xp, 0) into v_old_total
+    from profiles where id = p_user_id for update;
+
+  insert into reward_events (user_id, source_type, source_id, xp, cowries, idempotency_key)
+  values (p_user_id, p_source_type, p_source_id, p_xp, p_cowries, p_idempotency_key)
+  on conflict (user_id, idempotency_key) do nothing;
+  inserted := found;
+  if not inserted then
+    return;
+  end if;
+
+  for v_level in (v_old_total / 100 + 2) .. ((v_old_total + p_xp) / 100 + 1) loop
+    insert into reward_events (user_id, source_type, source_id, xp, cowries, idempotency_key)
+    values (p_user_id, 'level_up', v_level::text, 0, 10, 'level_up:' || v_level)
+    on conflict (user_id, idempotency_key) do nothing;
+    if found then
+      level_bonus := level_bonus + 10;
+      levels_gained := levels_gained + 1;
+    end if;
+  end loop;
+end;
+$$;
+
+-- Unlock every achievement whose criteria now hold, granting its
+-- rewards. Returns the newly unlocked achievement IDs.
+create or replace function public.evaluate_achievements(p_user_id uuid)
+returns setof uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_achievement record;
+begin
+  for v_achievement in
+    select a.id, a.xp_reward, a.cowrie_reward, a.criteria
+      from achievements a
+     where not exists (
+       select 1 from user_achievements ua
+        where ua.user_id = p_user_id and ua.achievement_id = a.id
+     )
+  loop
+    if achievement_criteria_met(p_user_id, v_achievement.criteria) then
+      insert into user_achievements (user_id, achievement_id)
+      values (p_user_id, v_achievement.id)
+      on conflict do nothing;
+
+      if found then
+        perform record_reward(
+          p_user_id, 'achievement', v_achievement.id::text,
+          coalesce(v_achievement.xp_reward, 0), coalesce(v_achievement.cowrie_reward, 0),
+          'achievement:' || v_achievement.id
+        );
+
+        return next v_achievement.id;
+      end if;
+    end if;
+  end loop;
+end;
+$$;
+
+-- Evaluate after every reward event. Named to run after the activity
+-- trigger, so streak criteria see today's streak.
+create or replace function public.unlock_achievements_after_reward()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform evaluate_achievements(new.user_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists reward_events_unlock_achievements on public.reward_events;
+create trigger reward_events_unlock_achievements
+  after insert on public.reward_events
+  for each row
+  when (new.source_type <> 'streak_freeze')
+  execute function public.unlock_achievements_after_reward();
+
+-- Client entry points
+create or replace function public.check_achievements()
+returns setof uuid
+language sql
+security definer
+set search_path = public
+as $$
+  select evaluate_achievements(auth.uid());
+$$;
+
+create or replace function public.record_cultural_exploration(p_item_key text, p_language text)
+returns setof uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  -- Only catalogued items count, so the metric can't be farmed with
+  -- made-up keys
+  if not exists (
+    select 1 from cultural_items where item_key = p_item_key and language = p_language
+  ) then
+    raise exception 'Unknown cultural item: %', p_item_key using errcode = '22023';
+  end if;
+
+  insert into cultural_explorations (user_id, item_key, language)
+  values (auth.uid(), p_item_key, p_language)
+  on conflict do nothing;
+
+  return query select evaluate_achievements(auth.uid());
+end;
+$$;
+
+-- Achievement rewards are now granted only by evaluate_achievements();
+-- drop the client-callable 'achievement' source from grant_reward()
+create or replace function public.grant_reward(
+  p_source_type text,
+  p_source_id text,
+  p_idempotency_key text,
+  p_amount integer default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_xp integer := 0;
+  v_cowries integer := 0;
+  v_previous_xp integer;
+  v_previous_cowries integer;
+  v_score integer;
+  v_lesson record;
+  v_recorded record;
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  -- Serialise grants per user so concurrent calls can't double-count
+  perform 1 from profiles where id = v_user_id for update;
+
+  if exists (
+    select 1 from reward_events
+     where user_id = v_user_id and idempotency_key = p_idempotency_key
+  ) then
+    return jsonb_build_object('granted', false, 'reason', 'duplicate');
+  end if;
+
+  if p_source_type = 'exercise' then
+    -- First correct answer to an exercise earns its points, once
+    if not exists (
+      select 1 from exercise_attempts
+       where user_id = v_user_id and exercise_id = p_source_id::uuid and is_correct
+    ) then
+      return jsonb_build_object('granted', false, 'reason', 'no_correct_attempt');
+    end if;
+    if exists (
+      select 1 from reward_events
+       where user_id = v_user_id and source_type = 'exercise' and source_id = p_source_id
+    ) then
+      return jsonb_build_object('granted', false, 'reason', 'already_granted');
+    end if;
+    select coalesce(points, 0) into v_xp from exercises where id = p_source_id::uuid;
+
+  elsif p_source_type = 'lesson' then
+    -- Rewards scale with the best recorded score; improving a score
+    -- earns only the difference
+    select up.score, l.xp_reward, l.cowrie_reward into v_lesson
+      from user_progress up
+      join lessons l on l.id = up.lesson_id
+     where up.user_id = v_user_id and up.lesson_id = p_source_id::uuid and up.completed;
+    if not found then
+      return jsonb_build_object('granted', false, 'reason', 'lesson_not_completed');
+    end if;
+
+    select coalesce(sum(xp), 0), coalesce(sum(cowries), 0)
+      into v_previous_xp, v_previous_cowries
+      from reward_events
+     where user_id = v_user_id and source_type = 'lesson' and source_id = p_source_id;
+
+    v_xp := greatest(round(v_lesson.xp_reward * v_lesson.score / 100.0)::integer - v_previous_xp, 0);
+    v_cowries := greatest(round(v_lesson.cowrie_reward * v_lesson.score / 100.0)::integer - v_previous_cowries, 0);
+    if v_xp = 0 and v_cowries = 0 then
+      return jsonb_build_object('granted', false, 'reason', 'already_granted');
+    end if;
+
+  elsif p_source_type = 'practice' then
+    -- Free practice can't be verified, so it is capped per grant and per
+    -- local day
+    v_score := least(greatest(coalesce(p_amount, 0), 0), 10);
+    select coalesce(sum(xp), 0), coalesce(sum(cowries), 0)
+      into v_previous_xp, v_previous_cowries
+      from reward_events
+     where user_id = v_user_id and source_type = 'practice'
+       and created_at >= (local_today(v_user_id)::timestamp at time zone
+         (select timezone from profiles where id = v_user_id));
+
+    v_xp := least(v_score, greatest(100 - v_previous_xp, 0));
+    v_cowries := case when v_score >= 8 and v_previous_cowries < 10 then 1 else 0 end;
+    if v_xp = 0 and v_cowries = 0 then
+      -- Past the cap it still counts as study for the streak
+      perform log_daily_activity(v_user_id, now(), 0);
+      return jsonb_build_object('granted', false, 'reason', 'daily_limit');
+    end if;
+
+  else
+    raise exception 'Unknown reward source: %', p_source_type using errcode = '22023';
+  end if;
+
+  v_recorded := record_reward(v_user_id, p_source_type, p_source_id, v_xp, v_cowries, p_idempotency_key);
+
+  select jsonb_build_object(
+    'granted', true,
+    'xp', v_xp,
+    'cowries', v_cowries + v_recorded.level_bonus,
+    'levelsGained', v_recorded.levels_gained,
+    'totalXp', coalesce(total_xp, 0),
+    'totalCowries', coalesce(cowrie_shells, 0)
+  ) into v_result
+    from profiles where id = v_user_id;
+
+  return v_result;
+end;
+$$;
+
+drop function if exists public.achievement_requirement_met(uuid, text, integer);
+
+-- Internal helpers take any user ID, so clients must not call them
+revoke all on function public.record_reward(uuid, text, text, integer, integer, text) from public, anon, authenticated;
+revoke all on function public.achievement_metric(uuid, text, text) from public, anon, authenticated;
+revoke all on function public.achievement_criteria_met(uuid, jsonb) from public, anon, authenticated;
+revoke all on function public.evaluate_achievements(uuid) from public, anon, authenticated;
+grant execute on function public.check_achievements() to authenticated;
+grant execute on function public.record_cultural_exploration(text, text) to authenticated;
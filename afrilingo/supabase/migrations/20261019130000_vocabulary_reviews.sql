@@ -0,0 +1,67 @@
+-- Spaced-repetition memory state per learner per vocabulary word.
+-- Scheduling (SM-2) happens on the client, which writes back the
+-- absolute state after each review, so replays are harmless.
+
+create table if not exists public.vocabulary_reviews (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  vocabulary_id uuid not null references public.vocabulary (id) on delete cascade,
+  ease_factor numeric(4, 2) not null default 2.5,
+  interval_days integer not null default 0,
+  repetitions integer not null default 0,
+  lapses integer not null default 0,
+  due_at timestamptz not null default now(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (user_id, vocabulary_id)
+);
+
+create index if not exists vocabulary_reviews_due_idx
+  on public.vocabulary_reviews (user_id, due_at);
+
+alter table public.vocabulary_reviews enable row level security;
+
+create policy "Users can read their own reviews"
+  on public.vocabulary_reviews for select
+  using (auth.uid() = user_id);
+
+create policy "Users can update their own reviews"
+  on public.vocabulary_reviews for update
+  using (auth.uid() = user_id);
+
+-- A lesson's words join the review queue once the lesson is completed
+create or replace function public.enroll_lesson_vocabulary()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.completed and (tg_op = 'INSERT' or not old.completed) then
+    insert into vocabulary_reviews (user_id, vocabulary_id)
+    select new.user_id, v.id from vocabulary v where v.lesson_id = new.lesson_id
+    on conflict do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_progress_enroll_vocabulary on public.user_progress;
+create trigger user_progress_enroll_vocabulary
+  after insert or update of completed on public.user_progress
+  for each row execute function public.enroll_lesson_vocabulary();
+
+-- A review session counts as study for the streak
+drop trigger if exists vocabulary_reviews_record_activity on public.vocabulary_reviews;
+create trigger vocabulary_reviews_record_activity
+  after update of last_reviewed_at on public.vocabulary_reviews
+  for each row
+  when (new.last_reviewed_at is distinct from old.last_reviewed_at)
+  execute function public.record_study_activity('last_reviewed_at');
+
+-- Enroll words from lessons completed before this migration
+insert into public.vocabulary_reviews (user_id, vocabulary_id)
+select up.user_id, v.id
+  from public.user_progress up
+  join public.vocabulary v on v.lesson_id = up.lesson_id
+ where up.completed
+on conflict do nothing;
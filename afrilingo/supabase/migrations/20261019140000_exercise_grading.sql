@@ -0,0 +1,11 @@
+-- Grading options for typed answers. accepted_answers lists other
+-- phrasings graded as correct; tone_strict fails answers that leave
+-- out tone marks instead of accepting them with reduced credit.
+alter table public.exercises
+  add column if not exists accepted_answers text[] not null default '{}',
+  add column if not exists tone_strict boolean not null default false;
+
+-- Typed answers are compared in NFC, so store them that way
+update public.exercises
+   set correct_answer = normalize(correct_answer, NFC)
+ where correct_answer is not normalized;
@@ -0,0 +1,8 @@
+-- How the learner's best run through a lesson went. Time is measured
+-- from started_at, which is moved forward each time the lesson is begun.
+alter table public.user_progress
+  add column if not exists time_spent_seconds integer,
+  add column if not exists correct_answers integer not null default 0,
+  add column if not exists incorrect_answers integer not null default 0,
+  add column if not exists hints_used integer not null default 0,
+  add column if not exists retries integer not null default 0;
@@ -0,0 +1,20 @@
+-- Listening exercises: dictation (type what you hear), audio_match
+-- (pick the written form of a clip) and tone_identification (pick the
+-- correctly tone-marked spelling). The clip is the correct answer
+-- spoken with text-to-speech.
+alter table public.exercises
+  drop constraint if exists exercises_exercise_type_check;
+
+alter table public.exercises
+  add constraint exercises_exercise_type_check check (
+    exercise_type in (
+      'multiple_choice',
+      'translation',
+      'pronunciation',
+      'fill_blank',
+      'conversation',
+      'dictation',
+      'audio_match',
+      'tone_identification'
+    )
+  );
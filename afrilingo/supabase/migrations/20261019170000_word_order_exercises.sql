@@ -0,0 +1,20 @@
+-- Sentence-building exercises: the learner arranges tiles into a
+-- sentence. options holds the tiles (the answer's words when empty);
+-- other valid orders go in accepted_answers.
+alter table public.exercises
+  drop constraint if exists exercises_exercise_type_check;
+
+alter table public.exercises
+  add constraint exercises_exercise_type_check check (
+    exercise_type in (
+      'multiple_choice',
+      'translation',
+      'pronunciation',
+      'fill_blank',
+      'conversation',
+      'dictation',
+      'audio_match',
+      'tone_identification',
+      'word_order'
+    )
+  );
@@ -0,0 +1,141 @@
+-- Stable content IDs for course content, and a function that applies a
+-- sync plan from src/scripts/syncContent.ts in a single transaction.
+-- Rows seeded before content IDs existed keep a null content_id until
+-- the first sync adopts them.
+alter table public.lessons
+  add column if not exists content_id text unique;
+
+alter table public.exercises
+  add column if not exists content_id text unique;
+
+alter table public.vocabulary
+  add column if not exists content_id text unique;
+
+create or replace function public.apply_content_sync(plan jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  deleted_lessons uuid[] := array(
+    select jsonb_array_elements_text(coalesce(plan->'delete'->'lessons', '[]'))::uuid
+  );
+  deleted_exercises uuid[] := array(
+    select jsonb_array_elements_text(coalesce(plan->'delete'->'exercises', '[]'))::uuid
+  );
+  deleted_vocabulary uuid[] := array(
+    select jsonb_array_elements_text(coalesce(plan->'delete'->'vocabulary', '[]'))::uuid
+  );
+  orphaned integer;
+  lessons_written integer;
+  exercises_written integer;
+  vocabulary_written integer;
+begin
+  -- Progress on a deleted lesson is only dropped when the caller says so;
+  -- counting here as well catches progress recorded since the plan was made
+  select count(*) into orphaned
+    from public.user_progress
+   where lesson_id = any(deleted_lessons);
+
+  if orphaned > 0 and not coalesce((plan->>'prune_progress')::boolean, false) then
+    raise exception 'Sync would orphan % user_progress rows', orphaned;
+  end if;
+
+  delete from public.user_progress where lesson_id = any(deleted_lessons);
+  delete from public.exercises
+   where id = any(deleted_exercises) or lesson_id = any(deleted_lessons);
+  delete from public.vocabulary
+   where id = any(deleted_vocabulary) or lesson_id = any(deleted_lessons);
+  delete from public.lessons where id = any(deleted_lessons);
+
+  -- Untracked rows take the content ID they were matched to
+  update public.lessons t
+     set content_id = a.content_id
+    from jsonb_to_recordset(coalesce(plan->'adopt'->'lessons', '[]')) as a (id uuid, content_id text)
+   where t.id = a.id;
+
+  update public.exercises t
+     set content_id = a.content_id
+    from jsonb_to_recordset(coalesce(plan->'adopt'->'exercises', '[]')) as a (id uuid, content_id text)
+   where t.id = a.id;
+
+  update public.vocabulary t
+     set content_id = a.content_id
+    from jsonb_to_recordset(coalesce(plan->'adopt'->'vocabulary', '[]')) as a (id uuid, content_id text)
+   where t.id = a.id;
+
+  insert into public.lessons (
+    content_id, language_id, title, description, lesson_order, lesson_type,
+    difficulty, estimated_time, is_premium, xp_reward, cowrie_reward, cultural_context
+  )
+  select r.content_id, r.language_id, r.title, r.description, r.lesson_order, r.lesson_type,
+         r.difficulty, r.estimated_time, r.is_premium, r.xp_reward, r.cowrie_reward, r.cultural_context
+    from jsonb_populate_recordset(null::public.lessons, coalesce(plan->'lessons', '[]')) r
+  on conflict (content_id) do update
+     set language_id = excluded.language_id,
+         title = excluded.title,
+         description = excluded.description,
+         lesson_order = excluded.lesson_order,
+         lesson_type = excluded.lesson_type,
+         difficulty = excluded.difficulty,
+         estimated_time = excluded.estimated_time,
+         is_premium = excluded.is_premium,
+         xp_reward = excluded.xp_reward,
+         cowrie_reward = excluded.cowrie_reward,
+         cultural_context = excluded.cultural_context;
+  get diagnostics lessons_written = row_count;
+
+  insert into public.exercises (
+    content_id, lesson_id, exercise_order, exercise_type, question, correct_answer,
+    accepted_answers, options, explanation, points, tone_strict
+  )
+  select r.content_id, l.id, r.exercise_order, r.exercise_type, r.question, r.correct_answer,
+         r.accepted_answers, r.options, r.explanation, r.points, r.tone_strict
+    from jsonb_array_elements(coalesce(plan->'exercises', '[]')) item
+    cross join lateral jsonb_populate_record(null::public.exercises, item) r
+    join public.lessons l on l.content_id = item->>'lesson_content_id'
+  on conflict (content_id) do update
+     set lesson_id = excluded.lesson_id,
+         exercise_order = excluded.exercise_order,
+         exercise_type = excluded.exercise_type,
+         question = excluded.question,
+         correct_answer = excluded.correct_answer,
+         accepted_answers = excluded.accepted_answers,
+         options = excluded.options,
+         explanation = excluded.explanation,
+         points = excluded.points,
+         tone_strict = excluded.tone_strict;
+  get diagnostics exercises_written = row_count;
+
+  insert into public.vocabulary (content_id, lesson_id, word, translation, pronunciation, display_order)
+  select r.content_id, l.id, r.word, r.translation, r.pronunciation, r.display_order
+    from jsonb_array_elements(coalesce(plan->'vocabulary', '[]')) item
+    cross join lateral jsonb_populate_record(null::public.vocabulary, item) r
+    join public.lessons l on l.content_id = item->>'lesson_content_id'
+  on conflict (content_id) do update
+     set lesson_id = excluded.lesson_id,
+         word = excluded.word,
+         translation = excluded.translation,
+         pronunciation = excluded.pronunciation,
+         display_order = excluded.display_order;
+  get diagnostics vocabulary_written = row_count;
+
+  if exercises_written <> jsonb_array_length(coalesce(plan->'exercises', '[]'))
+     or vocabulary_written <> jsonb_array_length(coalesce(plan->'vocabulary', '[]')) then
+    raise exception 'Sync plan refers to a lesson that does not exist';
+  end if;
+
+  return jsonb_build_object(
+    'lessons', lessons_written,
+    'exercises', exercises_written,
+    'vocabulary', vocabulary_written,
+    'deleted_lessons', coalesce(array_length(deleted_lessons, 1), 0),
+    'pruned_progress', orphaned
+  );
+end;
+$$;
+
+-- Content is only synced with the service role key
+revoke all on function public.apply_content_sync(jsonb) from public, anon, authenticated;
+grant execute on function public.apply_content_sync(jsonb) to service_role;
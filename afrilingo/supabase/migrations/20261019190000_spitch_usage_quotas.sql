@@ -0,0 +1,68 @@
+-- Per-user daily usage of the Spitch proxy. units is characters for
+-- text endpoints and seconds of audio for transcriptions. Only the
+-- spitch-proxy edge function writes here, through consume_spitch_quota().
+
+create table if not exists public.spitch_usage (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  endpoint text not null,
+  day date not null,
+  units numeric not null default 0 check (units >= 0),
+  requests integer not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, endpoint, day)
+);
+
+alter table public.spitch_usage enable row level security;
+
+create policy "Users can read their own Spitch usage"
+  on public.spitch_usage for select
+  using (auth.uid() = user_id);
+
+-- Add units to today's (UTC) usage unless that would go over the limit.
+-- Negative units give back usage for a request that failed upstream.
+-- Returns whether the request may go ahead and the usage it leaves.
+create or replace function public.consume_spitch_quota(
+  p_user_id uuid,
+  p_endpoint text,
+  p_units numeric,
+  p_limit numeric
+)
+returns table (allowed boolean, used numeric)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  today date := (now() at time zone 'utc')::date;
+  total numeric;
+begin
+  if p_units > p_limit then
+    select coalesce(max(u.units), 0) into total
+      from public.spitch_usage u
+     where u.user_id = p_user_id and u.endpoint = p_endpoint and u.day = today;
+    return query select false, total;
+    return;
+  end if;
+
+  insert into public.spitch_usage as u (user_id, endpoint, day, units, requests)
+  values (p_user_id, p_endpoint, today, greatest(p_units, 0), case when p_units > 0 then 1 else 0 end)
+  on conflict (user_id, endpoint, day) do update
+     set units = greatest(u.units + p_units, 0),
+         requests = u.requests + excluded.requests,
+         updated_at = now()
+   where u.units + p_units <= p_limit
+  returning u.units into total;
+
+  if found then
+    return query select true, total;
+  else
+    select u.units into total
+      from public.spitch_usage u
+     where u.user_id = p_user_id and u.endpoint = p_endpoint and u.day = today;
+    return query select false, total;
+  end if;
+end;
+$$;
+
+revoke all on function public.consume_spitch_quota(uuid, text, numeric, numeric) from public, anon, authenticated;
+grant execute on function public.consume_spitch_quota(uuid, text, numeric, numeric) to service_role;
@@ -0,0 +1,40 @@
+-- Responses the spitch-proxy edge function has already fetched, keyed by
+-- a SHA-256 of the endpoint and normalised request body. The response
+-- itself lives in the private spitch-cache Storage bucket under the same
+-- key; this table records its type and when it expires. Only the
+-- function (service role) reads or writes either.
+
+create table if not exists public.spitch_cache (
+  key text primary key,
+  endpoint text not null check (endpoint in ('/v1/speech', '/v1/diacritics')),
+  content_type text not null,
+  size_bytes integer not null default 0,
+  hits integer not null default 0,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  last_hit_at timestamptz
+);
+
+create index if not exists spitch_cache_expires_idx
+  on public.spitch_cache (expires_at);
+
+alter table public.spitch_cache enable row level security;
+
+insert into storage.buckets (id, name, public)
+values ('spitch-cache', 'spitch-cache', false)
+on conflict (id) do nothing;
+
+create or replace function public.touch_spitch_cache(p_key text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.spitch_cache
+     set hits = hits + 1,
+         last_hit_at = now()
+   where key = p_key;
+$$;
+
+revoke all on function public.touch_spitch_cache(text) from public, anon, authenticated;
+grant execute on function public.touch_spitch_cache(text) to service_role;
@@ -0,0 +1,9 @@
+-- Translations are deterministic text too, so the spitch-proxy caches
+-- /v1/translate responses alongside speech and diacritics.
+
+alter table public.spitch_cache
+  drop constraint if exists spitch_cache_endpoint_check;
+
+alter table public.spitch_cache
+  add constraint spitch_cache_endpoint_check
+  check (endpoint in ('/v1/speech', '/v1/diacritics', '/v1/translate'));
@@ -0,0 +1,385 @@
+-- Server-side grading.
+-- exercise_attempts.is_correct and user_progress.score are written by
+-- the client, and grant_reward and the achievement metrics trust them.
+-- Attempts are now graded here against the exercise's answers, and a
+-- lesson's score is capped at what its graded attempts support.
+--
+-- The grader is a port of src/utils/grading.ts, which shows the learner
+-- their result; the two must agree. The rules they share (per-type
+-- leniency, credits, thresholds and normalisation) are set out in
+-- grading_rule() and grade_against() below. Change both together.
+
+alter table public.exercise_attempts
+  add column if not exists credit numeric not null default 0;
+
+-- NFC, lower case, single spaces. Anything but letters, digits, the
+-- combining marks U+0300-U+036F and whitespace separates words, as in
+-- normalizeAnswer.
+create or replace function public.normalize_answer(p_text text)
+returns text
+language sql
+immutable
+as $$
+  select btrim(regexp_replace(
+    regexp_replace(lower(normalize(coalesce(p_text, ''), NFC)), '[^[:alpha:][:digit:]\u0300-\u036f[:space:]]+', ' ', 'g'),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+-- Grave, acute and macron: the marks that carry tone
+create or replace function public.strip_tone_marks(p_text text)
+returns text
+language sql
+immutable
+as $$
+  select normalize(regexp_replace(normalize(p_text, NFD), '[\u0300\u0301\u0304]', '', 'g'), NFC);
+$$;
+
+create or replace function public.has_tone_marks(p_text text)
+returns boolean
+language sql
+immutable
+as $$
+  select normalize(p_text, NFD) ~ '[\u0300\u0301\u0304]';
+$$;
+
+-- Whether two normalised strings differ by a small slip of the keyboard:
+-- one edit for short answers, two for longer ones
+create or replace function public.is_near_miss(p_expected text, p_actual text)
+returns boolean
+language plpgsql
+immutable
+as $$
+declare
+  v_left text[] := regexp_split_to_array(p_expected, '');
+  v_right text[] := regexp_split_to_array(p_actual, '');
+  v_length integer := char_length(p_expected);
+  v_previous integer[];
+  v_current integer[];
+  i integer;
+  j integer;
+begin
+  if v_length < 4 or p_expected = p_actual then
+    return false;
+  end if;
+  -- Lengths alone rule it out; skips the table for unrelated answers
+  if abs(v_length - char_length(p_actual)) > 2 then
+    return false;
+  end if;
+
+  v_previous := array(select generate_series(0, char_length(p_actual)));
+  for i in 1 .. v_length loop
+    v_current := array[i];
+    for j in 1 .. char_length(p_actual) loop
+      v_current := v_current || least(
+        v_previous[j] + case when v_left[i] = v_right[j] then 0 else 1 end,
+        v_previous[j + 1] + 1,
+        v_current[j] + 1
+      );
+    end loop;
+    v_previous := v_current;
+  end loop;
+
+  return v_previous[char_length(p_actual) + 1] <= case when v_length >= 8 then 2 else 1 end;
+end;
+$$;
+
+-- Matched words in the edit-distance alignment of p_actual against
+-- p_expected, traced back preferring diagonal moves. Mirrors alignWords
+-- and summarizeAlignment in src/utils/alignment.ts.
+create or replace function public.aligned_word_matches(p_expected text[], p_actual text[], p_typos boolean)
+returns integer
+language plpgsql
+immutable
+as $$
+declare
+  v_rows integer := coalesce(array_length(p_expected, 1), 0);
+  v_cols integer := coalesce(array_length(p_actual, 1), 0);
+  -- cost[i][j], flattened: edit distance between expected[0..i) and actual[0..j)
+  v_cost integer[];
+  v_matched boolean;
+  v_matches integer := 0;
+  i integer;
+  j integer;
+begin
+  v_cost := array_fill(0, array[(v_rows + 1) * (v_cols + 1)]);
+  for i in 0 .. v_rows loop
+    v_cost[i * (v_cols + 1) + 1] := i;
+  end loop;
+  for j in 0 .. v_cols loop
+    v_cost[j + 1] := j;
+  end loop;
+
+  for i in 1 .. v_rows loop
+    for j in 1 .. v_cols loop
+      v_matched := p_expected[i] = p_actual[j] or (p_typos and is_near_miss(p_expected[i], p_actual[j]));
+      v_cost[i * (v_cols + 1) + j + 1] := least(
+        v_cost[(i - 1) * (v_cols + 1) + j] + case when v_matched then 0 else 1 end,
+        v_cost[(i - 1) * (v_cols + 1) + j + 1] + 1,
+        v_cost[i * (v_cols + 1) + j] + 1
+      );
+    end loop;
+  end loop;
+
+  i := v_rows;
+  j := v_cols;
+  while i > 0 or j > 0 loop
+    if i > 0 and j > 0 then
+      v_matched := p_expected[i] = p_actual[j] or (p_typos and is_near_miss(p_expected[i], p_actual[j]));
+      if v_cost[i * (v_cols + 1) + j + 1]
+         = v_cost[(i - 1) * (v_cols + 1) + j] + case when v_matched then 0 else 1 end then
+        if v_matched then
+          v_matches := v_matches + 1;
+        end if;
+        i := i - 1;
+        j := j - 1;
+        continue;
+      end if;
+    end if;
+
+    if i > 0 and v_cost[i * (v_cols + 1) + j + 1] = v_cost[(i - 1) * (v_cols + 1) + j + 1] + 1 then
+      i := i - 1;
+    else
+      j := j - 1;
+    end if;
+  end loop;
+
+  return v_matches;
+end;
+$$;
+
+-- Leniency per exercise type, as RULES in grading.ts. Chosen options
+-- must match exactly; typed answers get some leeway.
+create or replace function public.grading_rule(
+  p_exercise_type text,
+  out tone_lenient boolean,
+  out typos boolean,
+  out partial_credit boolean
+)
+language sql
+immutable
+as $$
+  select coalesce(r.tone_lenient, false), coalesce(r.typos, false), coalesce(r.partial_credit, false)
+    from (select 1) one
+    left join (values
+      ('multiple_choice', false, false, false),
+      ('translation', true, true, true),
+      ('fill_blank', true, true, true),
+      ('pronunciation', false, false, false),
+      ('conversation', true, true, true),
+      ('dictation', true, true, true),
+      ('audio_match', false, false, false),
+      ('tone_identification', false, false, false),
+      ('word_order', false, false, true)
+    ) as r (exercise_type, tone_lenient, typos, partial_credit)
+      on r.exercise_type = p_exercise_type;
+$$;
+
+-- Grade a response against one accepted answer. Mirrors gradeAgainst.
+create or replace function public.grade_against(
+  p_answer text,
+  p_response text,
+  p_tone_lenient boolean,
+  p_typos boolean,
+  p_partial_credit boolean,
+  p_tone_strict boolean,
+  out is_correct boolean,
+  out credit numeric
+)
+language plpgsql
+immutable
+as $$
+declare
+  -- As the credit constants in grading.ts
+  c_missing_tones_credit constant numeric := 0.8;
+  c_wrong_tones_credit constant numeric := 0.5;
+  c_typo_credit constant numeric := 0.9;
+  c_partial_threshold constant numeric := 0.5;
+  v_expected text := normalize_answer(p_answer);
+  v_actual text := normalize_answer(p_response);
+  v_expected_bare text;
+  v_actual_bare text;
+  v_expected_has_tones boolean;
+  v_missing_tones boolean;
+  v_expected_words text[];
+  v_actual_words text[];
+  v_share numeric;
+begin
+  is_correct := false;
+  credit := 0;
+
+  if v_actual = v_expected then
+    is_correct := true;
+    credit := 1;
+    return;
+  end if;
+
+  v_expected_bare := case when p_tone_lenient then strip_tone_marks(v_expected) else v_expected end;
+  v_actual_bare := case when p_tone_lenient then strip_tone_marks(v_actual) else v_actual end;
+  v_expected_has_tones := has_tone_marks(v_expected);
+  v_missing_tones := p_tone_lenient and v_expected_has_tones and not has_tone_marks(v_actual);
+
+  if p_tone_lenient and v_actual_bare = v_expected_bare then
+    if not v_expected_has_tones and not p_tone_strict then
+      is_correct := true;
+      credit := 1;
+    elsif not v_missing_tones or p_tone_strict then
+      credit := c_wrong_tones_credit;
+    else
+      is_correct := true;
+      credit := c_missing_tones_credit;
+    end if;
+    return;
+  end if;
+
+  if p_typos and is_near_miss(v_expected_bare, v_actual_bare) then
+    if v_missing_tones and p_tone_strict then
+      credit := c_wrong_tones_credit * c_typo_credit;
+    else
+      is_correct := true;
+      credit := case when v_missing_tones then c_missing_tones_credit * c_typo_credit else c_typo_credit end;
+    end if;
+    return;
+  end if;
+
+  if p_partial_credit then
+    v_expected_words := regexp_split_to_array(nullif(v_expected_bare, ''), ' ');
+    v_actual_words := coalesce(regexp_split_to_array(nullif(v_actual_bare, ''), ' '), '{}');
+    if coalesce(array_length(v_expected_words, 1), 0) > 1 then
+      v_share := aligned_word_matches(v_expected_words, v_actual_words, p_typos)::numeric
+        / greatest(array_length(v_expected_words, 1), coalesce(array_length(v_actual_words, 1), 0));
+      if v_share >= c_partial_threshold then
+        credit := v_share;
+      end if;
+    end if;
+  end if;
+end;
+$$;
+
+-- Grade a response to an exercise, keeping the most generous reading
+-- across the correct answer and its accepted alternatives. Mirrors
+-- gradeAnswer and its per-type rules.
+create or replace function public.grade_response(
+  p_exercise_id uuid,
+  p_response text,
+  out is_correct boolean,
+  out credit numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_exercise record;
+  v_answer text;
+  v_result record;
+  v_rule record;
+begin
+  is_correct := false;
+  credit := 0;
+
+  select exercise_type, correct_answer, accepted_answers, tone_strict into v_exercise
+    from exercises where id = p_exercise_id;
+  if not found or p_response is null then
+    return;
+  end if;
+
+  v_rule := grading_rule(v_exercise.exercise_type);
+
+  foreach v_answer in array array[v_exercise.correct_answer] || coalesce(v_exercise.accepted_answers, '{}') loop
+    v_result := grade_against(
+      v_answer, p_response,
+      v_rule.tone_lenient, v_rule.typos, v_rule.partial_credit, v_exercise.tone_strict
+    );
+    if (v_result.is_correct and not is_correct)
+       or (v_result.is_correct = is_correct and v_result.credit > credit) then
+      is_correct := v_result.is_correct;
+      credit := v_result.credit;
+    end if;
+  end loop;
+
+  credit := round(credit, 2);
+end;
+$$;
+
+create or replace function public.grade_exercise_attempt()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_grade record;
+begin
+  -- response may hold a bare string or a JSON string
+  v_grade := grade_response(new.exercise_id, to_jsonb(new.response) #>> '{}');
+  new.is_correct := v_grade.is_correct;
+  new.credit := v_grade.credit;
+  return new;
+end;
+$$;
+
+drop trigger if exists exercise_attempts_grade on public.exercise_attempts;
+create trigger exercise_attempts_grade
+  before insert or update of exercise_id, response, is_correct, credit on public.exercise_attempts
+  for each row execute function public.grade_exercise_attempt();
+
+-- Highest score a learner's graded attempts support for a lesson: each
+-- exercise's best credit, weighted by its points. Retry and hint
+-- penalties are left to the client, so this is an upper bound.
+create or replace function public.lesson_verified_score(p_user_id uuid, p_lesson_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(round(100 * sum(weight * best) / nullif(sum(weight), 0))::integer, 0)
+    from (
+      select coalesce(nullif(e.points, 0), 1) as weight,
+             coalesce((
+               select max(a.credit) from exercise_attempts a
+                where a.user_id = p_user_id and a.exercise_id = e.id
+             ), 0) as best
+        from exercises e
+       where e.lesson_id = p_lesson_id
+    ) scored;
+$$;
+
+-- Cap a lesson's score at what its attempts support, keeping any score
+-- already recorded, and derive the rewards shown from it
+create or replace function public.verify_lesson_score()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_cap integer := lesson_verified_score(new.user_id, new.lesson_id);
+begin
+  if tg_op = 'UPDATE' then
+    v_cap := greatest(v_cap, coalesce(old.score, 0));
+  end if;
+  new.score := least(coalesce(new.score, 0), v_cap);
+
+  select round(coalesce(xp_reward, 0) * new.score / 100.0),
+         round(coalesce(cowrie_reward, 0) * new.score / 100.0)
+    into new.xp_earned, new.cowries_earned
+    from lessons where id = new.lesson_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists user_progress_verify_score on public.user_progress;
+create trigger user_progress_verify_score
+  before insert or update of score, completed, xp_earned, cowries_earned on public.user_progress
+  for each row execute function public.verify_lesson_score();
+
+-- Attempts recorded before this migration are left ungraded (credit 0)
+-- rather than re-graded against today's answers. Scores they earned are
+-- already on user_progress, and verify_lesson_score keeps them.
+
+revoke all on function public.grade_response(uuid, text) from public, anon, authenticated;
+revoke all on function public.lesson_verified_score(uuid, uuid) from public, anon, authenticated;
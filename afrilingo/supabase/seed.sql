@@ -0,0 +1,33 @@
+-- Reference data loaded by `supabase db reset`. Lessons, vocabulary and
+-- exercises live in content/ and are loaded with
+-- `npx tsx src/scripts/syncContent.ts --local --apply`.
+-- Safe to run more than once.
+
+insert into public.languages (code, name, native_name)
+select v.code, v.name, v.native_name
+  from (values
+    ('yo', 'Yoruba', 'Yorùbá'),
+    ('ig', 'Igbo', 'Igbo'),
+    ('ha', 'Hausa', 'Hausa')
+  ) as v (code, name, native_name)
+ where not exists (select 1 from public.languages l where l.code = v.code);
+
+insert into public.achievements (name, description, icon, xp_reward, cowrie_reward, requirement_type, requirement_value, criteria)
+select v.name, v.description, v.icon, v.xp_reward, v.cowrie_reward, v.requirement_type, v.requirement_value, v.criteria::jsonb
+  from (values
+    ('First Steps', 'Complete your first lesson', '📚', 50, 10, 'lesson_completion', 1,
+     '{"metric": "lessons_completed", "gte": 1}'),
+    ('Week Warrior', 'Maintain a 7-day learning streak', '🔥', 100, 25, 'streak_milestone', 7,
+     '{"metric": "longest_streak", "gte": 7}'),
+    ('Polyglot', 'Start learning all three languages', '🌍', 200, 50, 'languages_started', 3,
+     '{"metric": "languages_started", "gte": 3}'),
+    ('Perfect Score', 'Get 100% on any lesson', '💯', 75, 15, 'perfect_score', 100,
+     '{"metric": "perfect_scores", "gte": 1}'),
+    ('Yoruba Scholar', 'Complete 5 Yoruba lessons with a 7-day streak', '🎭', 150, 30, 'lesson_completion', 5,
+     '{"all": [{"metric": "lessons_completed", "language": "yo", "gte": 5}, {"metric": "longest_streak", "gte": 7}]}'),
+    ('Language Explorer', 'Complete at least one lesson in each language', '🌍', 200, 50, 'lesson_completion', 3,
+     '{"metric": "languages_with_completed_lesson", "gte": 3}'),
+    ('Culture Curious', 'Explore 5 cultural topics or stories', '🏺', 50, 10, 'cultural_explorer', 5,
+     '{"metric": "cultural_items", "gte": 5}')
+  ) as v (name, description, icon, xp_reward, cowrie_reward, requirement_type, requirement_value, criteria)
+ where not exists (select 1 from public.achievements a where a.name = v.name);